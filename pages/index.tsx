@@ -22,6 +22,13 @@ export default function Home() {
     setEditing(false);
   };
 
+  const handleRoomCodeChange = (code: string) => {
+    if (!cfg) return;
+    const next = { ...cfg, room: { ...cfg.room, code } };
+    saveUserConfig(next);
+    setCfg(next);
+  };
+
   if (editing || !cfg) {
     return (
       <div
@@ -81,7 +88,7 @@ export default function Home() {
         </button>
       </div>
 
-      <DiceApp user={cfg} />
+      <DiceApp user={cfg} onRoomCodeChange={handleRoomCodeChange} />
     </div>
   );
 }
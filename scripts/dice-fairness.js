@@ -0,0 +1,269 @@
+/* Headless fairness check for every registered die.
+ *
+ *   node scripts/dice-fairness.js                    # every die, 2000 throws each
+ *   node scripts/dice-fairness.js --dice d10,d20 --throws 5000 --seed 7
+ *
+ * Throws each die's hull with cannon-es exactly as the tray does: the same
+ * world settings, body damping, start positions and `generateThrow` launches,
+ * settled and read with src/die-model.ts like Die.tsx. Then a chi-squared
+ * test per die compares how often each value came up with how many faces
+ * carry it. Exits 1 when a die is biased at --alpha (default 0.001), or when
+ * more than --max-invalid of its throws never settle or read a value the
+ * die doesn't roll. Dice that land cocked are counted but left out, as the
+ * tray would nudge or throw them again.
+ *
+ * Seeds are fixed, so a run is reproducible; change --seed for fresh throws.
+ */
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+const { Body, ConvexPolyhedron, Plane, Box, Vec3, World, SAPBroadphase } = require('cannon-es');
+
+const SRC = path.join(__dirname, '..', 'src');
+
+// Load the app's TypeScript modules as they are; "@/x" is the tsconfig alias for src/x
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019, esModuleInterop: true },
+    fileName: filename
+  });
+  module._compile(outputText.replace(/require\("@\/([^"]+)"\)/g, (_, p) => `require(${JSON.stringify(path.join(SRC, p))})`), filename);
+};
+
+const { dieTypes } = require(path.join(SRC, 'die-types'));
+const { geometryToConvexArgs } = require(path.join(SRC, 'convex'));
+const { COCKED_MS, createCockedCheck, createFaceReader, createSettleWatch, dieModel } = require(path.join(SRC, 'die-model'));
+const { dieThrowSeed, generateThrow, seededRng } = require(path.join(SRC, 'physics'));
+const { CEILING_Y, DEFAULT_TRAY, preRollPosition, WALL_HEIGHT, WALL_THICKNESS } = require(path.join(SRC, 'tray'));
+
+// The tray's <Physics> props, and the default stepping of @react-three/cannon
+const STEP = 1 / 60;
+const GRAVITY = -9.82;
+const FRICTION = 0.4;
+const RESTITUTION = 0.05;
+/** A batch that hasn't settled after this long is given up on. */
+const MAX_SECONDS = 20;
+
+function parseArgs(argv) {
+  const opts = { throws: 2000, batch: 8, seed: 1, alpha: 0.001, maxInvalid: 0.01, dice: null };
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inline] = argv[i].split('=');
+    const value = inline ?? argv[++i];
+    if (flag === '--throws') opts.throws = parseInt(value, 10);
+    else if (flag === '--batch') opts.batch = parseInt(value, 10);
+    else if (flag === '--seed') opts.seed = parseInt(value, 10);
+    else if (flag === '--alpha') opts.alpha = parseFloat(value);
+    else if (flag === '--max-invalid') opts.maxInvalid = parseFloat(value);
+    else if (flag === '--dice') opts.dice = value.split(',');
+    else throw new Error(`Unknown option ${flag}`);
+  }
+  return opts;
+}
+
+function createWorld() {
+  const world = new World();
+  world.gravity.set(0, GRAVITY, 0);
+  world.broadphase = new SAPBroadphase(world);
+  world.allowSleep = false;
+  Object.assign(world.defaultContactMaterial, { friction: FRICTION, restitution: RESTITUTION });
+
+  const floor = new Body({ mass: 0, type: Body.STATIC });
+  floor.addShape(new Plane());
+  floor.quaternion.setFromEuler(-Math.PI / 2, 0, 0);
+  world.addBody(floor);
+
+  // The tray's walls and lid, as WallsDynamic builds them
+  const { width, depth } = DEFAULT_TRAY;
+  const halfX = width / 2;
+  const halfZ = depth / 2;
+  const boxes = [
+    [[width, WALL_HEIGHT, WALL_THICKNESS], [0, WALL_HEIGHT / 2, -halfZ]],
+    [[width, WALL_HEIGHT, WALL_THICKNESS], [0, WALL_HEIGHT / 2, halfZ]],
+    [[WALL_THICKNESS, WALL_HEIGHT, depth], [-halfX, WALL_HEIGHT / 2, 0]],
+    [[WALL_THICKNESS, WALL_HEIGHT, depth], [halfX, WALL_HEIGHT / 2, 0]],
+    [[width, WALL_THICKNESS, depth], [0, CEILING_Y, 0]]
+  ];
+  for (const [size, position] of boxes) {
+    const wall = new Body({ mass: 0, type: Body.STATIC });
+    wall.addShape(new Box(new Vec3(...size.map((v) => v / 2))));
+    wall.position.set(...position);
+    world.addBody(wall);
+  }
+  return world;
+}
+
+const COCKED = 'cocked';
+
+/** Throws `count` dice of one spec together; the value each settled on, COCKED, or null. */
+function throwBatch(world, spec, model, count, seed, batch) {
+  const convex = geometryToConvexArgs(model.scaledGeom);
+  const readSlot = createFaceReader(model.groups, model.corners, spec.readMode);
+  const isCocked = createCockedCheck(spec, model.groups, model.corners);
+  const valueOf = (slot) =>
+    spec.valueForCorner ? spec.valueForCorner(model.corners[slot], model.corners) : spec.valueForGroup(model.groups[slot], model.groups);
+
+  const dice = Array.from({ length: count }, (_, i) => {
+    const body = new Body({ mass: 1, angularDamping: 0.06, linearDamping: 0.015 });
+    body.addShape(new ConvexPolyhedron({ vertices: convex.vertices.map((v) => new Vec3(...v)), faces: convex.faces }));
+    body.position.set(...preRollPosition(DEFAULT_TRAY, i));
+    world.addBody(body);
+    const record = generateThrow(seededRng(dieThrowSeed(seed, batch + 1, i)));
+    body.velocity.set(...record.velocity);
+    body.angularVelocity.set(...record.angular);
+    return { body, impulses: [...record.impulses], settle: createSettleWatch(readSlot), value: undefined };
+  });
+
+  for (let step = 1; step * STEP < MAX_SECONDS; step++) {
+    const ms = step * STEP * 1000;
+    for (const d of dice)
+      while (d.impulses.length && d.impulses[0].at <= ms) {
+        const { impulse, point } = d.impulses.shift();
+        d.body.applyImpulse(new Vec3(...impulse), new Vec3(...point));
+      }
+    world.step(STEP);
+
+    // Die.tsx reads on every physics frame, once the die is at rest
+    for (const d of dice) {
+      const { quaternion: q, velocity: v, angularVelocity: w } = d.body;
+      const slot = d.settle.update(ms, [q.x, q.y, q.z, q.w], [v.x, v.y, v.z], [w.x, w.y, w.z]);
+      if (slot !== null) {
+        d.value = isCocked(slot, [q.x, q.y, q.z, q.w]) ? undefined : valueOf(slot);
+        d.cockedAt = d.value === undefined ? ms : undefined;
+      }
+      // Like Die.tsx, a die is only cocked if it's still leaning a moment later
+      if (d.cockedAt !== undefined && ms - d.cockedAt >= COCKED_MS) {
+        const quaternion = [q.x, q.y, q.z, q.w];
+        if (isCocked(readSlot(quaternion), quaternion)) d.value = COCKED;
+        else d.settle.reset();
+        d.cockedAt = undefined;
+      }
+    }
+    if (dice.every((d) => d.value !== undefined)) break;
+  }
+  for (const d of dice) world.removeBody(d.body);
+  return dice.map((d) => (d.value === undefined ? null : d.value));
+}
+
+// Regularized upper incomplete gamma Q(a, x), for chi-squared p-values (Numerical Recipes 6.2)
+function gammaLn(x) {
+  const c = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let ser = 1.000000000190015;
+  for (const v of c) ser += v / ++y;
+  return -tmp + Math.log((2.5066282746310005 * ser) / x);
+}
+
+function gammaQ(a, x) {
+  if (x <= 0) return 1;
+  if (x < a + 1) {
+    let sum = 1 / a;
+    let del = sum;
+    for (let n = 1; n < 500 && Math.abs(del) > Math.abs(sum) * 1e-14; n++) {
+      del *= x / (a + n);
+      sum += del;
+    }
+    return 1 - sum * Math.exp(-x + a * Math.log(x) - gammaLn(a));
+  }
+  let b = x + 1 - a;
+  let c = 1 / 1e-300;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < 1e-300) d = 1e-300;
+    c = b + an / c;
+    if (Math.abs(c) < 1e-300) c = 1e-300;
+    d = 1 / d;
+    const del = d * c;
+    h *= del;
+    if (Math.abs(del - 1) < 1e-14) break;
+  }
+  return Math.exp(-x + a * Math.log(x) - gammaLn(a)) * h;
+}
+
+/** Chi-squared of observed value counts against faces carrying each value. */
+function chiSquared(counts, faces) {
+  const total = [...counts.values()].reduce((a, b) => a + b, 0);
+  const slots = [...faces.values()].reduce((a, b) => a + b, 0);
+  let chi2 = 0;
+  let worst = { value: null, off: 0 };
+  for (const [value, n] of faces) {
+    const expected = (total * n) / slots;
+    const seen = counts.get(value) ?? 0;
+    chi2 += (seen - expected) ** 2 / expected;
+    const off = seen / expected - 1;
+    if (Math.abs(off) > Math.abs(worst.off)) worst = { value, off };
+  }
+  const df = faces.size - 1;
+  return { chi2, df, p: gammaQ(df / 2, chi2 / 2), worst };
+}
+
+function checkDie(type, opts) {
+  const { spec } = type;
+  const model = dieModel(spec);
+  const [lo, hi] = type.range;
+  const valid = (v) => v !== null && v >= lo && v <= hi;
+
+  // How many faces (corners, for vertex-read dice) carry each value
+  const slotValues = spec.valueForCorner
+    ? model.corners.map((c) => spec.valueForCorner(c, model.corners))
+    : model.groups.map((g) => spec.valueForGroup(g, model.groups));
+  const faces = new Map();
+  for (const v of slotValues.filter(valid)) faces.set(v, (faces.get(v) ?? 0) + 1);
+
+  const world = createWorld();
+  const counts = new Map();
+  let invalid = 0;
+  let unsettled = 0;
+  let cocked = 0;
+  for (let batch = 0, thrown = 0; thrown < opts.throws; batch++) {
+    const n = Math.min(opts.batch, opts.throws - thrown);
+    for (const v of throwBatch(world, spec, model, n, opts.seed, batch)) {
+      if (valid(v)) counts.set(v, (counts.get(v) ?? 0) + 1);
+      else if (v === COCKED) cocked++;
+      else if (v === null) unsettled++;
+      else invalid++;
+    }
+    thrown += n;
+  }
+
+  const stats = chiSquared(counts, faces);
+  const invalidShare = (invalid + unsettled) / opts.throws;
+  return { ...stats, counts, faces, invalid, unsettled, cocked, ok: stats.p >= opts.alpha && invalidShare <= opts.maxInvalid };
+}
+
+function main() {
+  const opts = parseArgs(process.argv.slice(2));
+  const types = dieTypes().filter((t) => t.spec && (!opts.dice || opts.dice.includes(t.kind)));
+  if (!types.length) throw new Error('No dice to check.');
+
+  let failed = 0;
+  for (const type of types) {
+    const started = Date.now();
+    const r = checkDie(type, opts);
+    if (!r.ok) failed++;
+    const read = [...r.counts.values()].reduce((a, b) => a + b, 0);
+    const freq = [...r.faces.keys()]
+      .sort((a, b) => a - b)
+      .map((v) => `${v}:${(((r.counts.get(v) ?? 0) / read) * 100).toFixed(1)}%`)
+      .join(' ');
+    console.log(
+      `${r.ok ? 'ok  ' : 'FAIL'} ${type.kind.padEnd(4)} chi2=${r.chi2.toFixed(1)} df=${r.df} p=${r.p.toPrecision(3)}` +
+        ` worst=${r.worst.value} (${(r.worst.off * 100).toFixed(1)}%)` +
+        (r.invalid ? ` no-value=${r.invalid}` : '') +
+        (r.unsettled ? ` unsettled=${r.unsettled}` : '') +
+        (r.cocked ? ` cocked=${r.cocked}` : '') +
+        ` [${((Date.now() - started) / 1000).toFixed(1)}s]`
+    );
+    console.log(`     ${freq}`);
+  }
+  if (failed) {
+    console.error(`${failed} of ${types.length} dice look biased (alpha ${opts.alpha}).`);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,47 @@
+/* Minimal stand-in for the random.org JSON-RPC API (generateDecimalFractions only).
+ *
+ *   node scripts/mock-random-org.js            # listens on :4010
+ *   RANDOM_ORG_URL=http://localhost:4010 RANDOM_ORG_API_KEY=test npm run dev
+ *
+ * MOCK_RANDOM_ORG_FAIL=1 answers every call with a JSON-RPC error, to exercise
+ * the crypto fallback. server/random-providers.test.js runs it under `npm test`.
+ */
+const http = require('http');
+
+function createMockRandomOrg({ fail = false, next = Math.random } = {}) {
+  return http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      let call;
+      try {
+        call = JSON.parse(body);
+      }
+      catch {
+        res.writeHead(400).end();
+        return;
+      }
+      const reply = (payload) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: call.id, ...payload }));
+      };
+      if (fail) return reply({ error: { code: 503, message: 'mock failure' } });
+      if (call.method !== 'generateDecimalFractions')
+        return reply({ error: { code: -32601, message: 'Method not found' } });
+      const { n, decimalPlaces = 6, apiKey } = call.params || {};
+      if (!apiKey) return reply({ error: { code: 400, message: 'missing apiKey' } });
+      const scale = 10 ** decimalPlaces;
+      const data = Array.from({ length: n }, () => Math.floor(next() * scale) / scale);
+      reply({ result: { random: { data, completionTime: new Date().toISOString() }, bitsUsed: 0, requestsLeft: 1000 } });
+    });
+  });
+}
+
+if (require.main === module) {
+  const port = parseInt(process.env.PORT || '4010', 10);
+  createMockRandomOrg({ fail: !!process.env.MOCK_RANDOM_ORG_FAIL }).listen(port, () =>
+    console.log('> Mock random.org on http://localhost:' + port)
+  );
+}
+
+module.exports = { createMockRandomOrg };
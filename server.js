@@ -3,14 +3,54 @@ const express = require('express');
 const next = require('next');
 const http = require('http');
 const { Server } = require('socket.io');
-const fetch = require('node-fetch');
+const { drawFractions, providerChainFromEnv } = require('./server/random-providers');
+const { newServerSeed, commitmentFor, deriveResults } = require('./server/fair');
+const { diceTable, checkRoll } = require('./server/rolls');
 
 const dev = process.env.NODE_ENV !== 'production';
 const app = next({ dev });
 const handle = app.getRequestHandler();
 
-// Random.org API key from original dice.py
-const RANDOM_ORG_API_KEY = 'f6e74d7b-070e-4f85-865d-d859fc0d078b';
+// See server/random-providers.js for DICE_RANDOM_PROVIDER / RANDOM_ORG_API_KEY
+const randomProviders = providerChainFromEnv();
+
+// Inclusive face value range per die kind; d100 is the combined percentile value,
+// symbol dice (boost, setback, ...) roll a face number
+const FACE_RANGES = { d2: [1, 2], d3: [1, 3], d4: [1, 4], d6: [1, 6], d8: [1, 8], d10: [1, 10], d12: [1, 12], d20: [1, 20], d24: [1, 24], d30: [1, 30], dF: [-1, 1], d100: [1, 100], boost: [1, 6], setback: [1, 6], ability: [1, 8], difficulty: [1, 8], proficiency: [1, 12], challenge: [1, 12] };
+
+// Tray sides in world units, as bounded by MIN/MAX_TRAY_SIDE in src/tray.ts
+const DEFAULT_TRAY = { width: 16, depth: 9 };
+const validTray = (t) => (t && [t.width, t.depth].every((s) => Number.isFinite(s) && s >= 6 && s <= 40) ? { width: t.width, depth: t.depth } : DEFAULT_TRAY);
+
+// Custom dice (packs, mesh imports) send the values of their faces with each request,
+// and how they're written in notation
+const MAX_CUSTOM_FACES = 120;
+const has = (obj, key) => !!obj && Object.prototype.hasOwnProperty.call(obj, key);
+const validFaces = (values) => Array.isArray(values) && values.length >= 2 && values.length <= MAX_CUSTOM_FACES && values.every(Number.isFinite);
+const builtinNotations = Object.values(diceTable(FACE_RANGES)).flatMap((t) => t.written.map((w) => w.toLowerCase()));
+const validNotation = (written) => typeof written === 'string' && /^d[a-z0-9]+$/i.test(written) && !builtinNotations.includes(written.toLowerCase());
+
+// Maps fractions in [0, 1) onto the faces of `set`, or null when a kind is neither built in
+// nor sent with valid faces. Only the faces of the kinds rolled are kept, for the reveal, and
+// in `dice` with their notation, for checking the roll once it's shared.
+function facesFor(set, faces, notations) {
+  const custom = {};
+  const dice = {};
+  for (const kind of set) {
+    if (has(FACE_RANGES, kind)) continue;
+    if (!has(faces, kind) || !validFaces(faces[kind])) return null;
+    const notation = has(notations, kind) ? notations[kind] : kind.startsWith('d') ? kind : `d${kind}`;
+    if (!validNotation(notation)) return null;
+    custom[kind] = faces[kind];
+    dice[kind] = { faces: faces[kind], notation };
+  }
+  const faceFor = (kind, fraction) => {
+    if (has(custom, kind)) return custom[kind][Math.min(custom[kind].length - 1, Math.floor(fraction * custom[kind].length))];
+    const [min, max] = FACE_RANGES[kind];
+    return Math.min(max, Math.floor(fraction * (max - min + 1)) + min);
+  };
+  return { faceFor, dice, custom: Object.keys(custom).length ? custom : undefined };
+}
 
 app.prepare().then(() => {
   const server = express();
@@ -18,88 +58,211 @@ app.prepare().then(() => {
   const io = new Server(httpServer, { cors: { origin: '*' } });
 
   // Simple in-memory rooms tracking (not persistent)
+  // rooms[id] = { code, ownerId, fair, cocked, tray, users: { [socketId]: { id, username, color } },
+  //              pending: { [rollId]: roll }, commits: { [commitId]: { userId, serverSeed } } (both with `at`, see dropStale),
+  //              history: [sharedRoll, ...] (newest last, capped at HISTORY_LIMIT),
+  //              vouched: { [socketId]: { first, notation, node, throws, dice } } (last authoritative roll, see checkRoll) }
   const rooms = {};
 
+  const ROOM_CODE_RE = /^[A-Z0-9]{4,8}$/;
+  const HISTORY_LIMIT = 200;
+  // Requests and commitments nobody shared or used in this long are forgotten
+  const PENDING_TTL = 10 * 60 * 1000;
+  const normalizeCode = (code) => String(code || '').trim().toUpperCase();
+  const newRoomCode = () => Math.random().toString(36).slice(2, 8).toUpperCase().padEnd(4, '0');
+  // Errors sent back in acks are { code, message } (see RoomError in src/types.ts)
+  const roomError = (code, message) => ({ error: { code, message } });
+
+  const emitUsers = (room) => {
+    const r = rooms[room];
+    if (!r) return;
+    io.to(room).emit('users', Object.values(r.users).map((u) => ({ ...u, owner: u.id === r.ownerId })));
+  };
+
+  // Drops a member, hands ownership to the next member and forgets empty rooms
+  // Drops a room's requested rolls and commitments that are past PENDING_TTL, or all of
+  // `socketId`'s when given
+  const dropStale = (r, socketId) => {
+    const stale = Date.now() - PENDING_TTL;
+    for (const map of [r.pending, r.commits])
+      for (const id of Object.keys(map)) if (map[id].userId === socketId || map[id].at < stale) delete map[id];
+  };
+
+  const removeMember = (room, socketId) => {
+    const r = rooms[room];
+    if (!r || !r.users[socketId]) return;
+    delete r.users[socketId];
+    delete r.vouched[socketId];
+    dropStale(r, socketId);
+    const remaining = Object.keys(r.users);
+    if (!remaining.length) {
+      delete rooms[room];
+      return;
+    }
+    if (r.ownerId === socketId) r.ownerId = remaining[0];
+    emitUsers(room);
+  };
+
+  const ownedRoom = (room, socketId) => {
+    const r = rooms[room];
+    if (!r || !r.users[socketId]) return roomError('NOT_IN_ROOM', 'You are not in this room');
+    if (r.ownerId !== socketId) return roomError('NOT_OWNER', 'Only the room owner can do that');
+    return null;
+  };
+
   io.on('connection', (socket) => {
     console.log('socket connected', socket.id);
 
-    socket.on('join', ({ room, username }, cb) => {
-      if (!room || !username) return cb && cb({ error: 'room and username required' });
+    // `fair`, `cocked` and `tray` only matter when the join creates the room
+    socket.on('join', ({ room, code, username, color, fair, cocked, tray }, cb) => {
+      cb = cb || (() => {});
+      code = normalizeCode(code);
+      if (!room || !username) return cb(roomError('BAD_REQUEST', 'room and username required'));
+      if (!ROOM_CODE_RE.test(code)) return cb(roomError('BAD_REQUEST', 'room code must be 4-8 letters/numbers'));
+      if (!rooms[room]) rooms[room] = { code, ownerId: socket.id, fair: !!fair, cocked: cocked === 'nudge' ? 'nudge' : 'rethrow', tray: validTray(tray), users: {}, pending: {}, commits: {}, history: [], vouched: {} };
+      else if (rooms[room].code !== code) return cb(roomError('BAD_ROOM_CODE', 'Wrong room code'));
       socket.join(room);
-      rooms[room] = rooms[room] || { users: {} };
-      rooms[room].users[socket.id] = { username };
-      io.to(room).emit('users', Object.values(rooms[room].users));
-      cb && cb({ ok: true });
+      rooms[room].users[socket.id] = { id: socket.id, username, color: color || '#ffffff' };
+      emitUsers(room);
+      socket.emit('history', rooms[room].history);
+      cb({ ok: true, owner: rooms[room].ownerId === socket.id, fair: rooms[room].fair, cocked: rooms[room].cocked, tray: rooms[room].tray });
     });
 
     socket.on('leave', ({ room }) => {
       socket.leave(room);
-      if (rooms[room]) {
-        delete rooms[room].users[socket.id];
-        io.to(room).emit('users', Object.values(rooms[room].users));
+      removeMember(room, socket.id);
+    });
+
+    socket.on('kick', ({ room, memberId }, cb) => {
+      cb = cb || (() => {});
+      const denied = ownedRoom(room, socket.id);
+      if (denied) return cb(denied);
+      if (memberId === socket.id || !rooms[room].users[memberId])
+        return cb(roomError('NO_SUCH_MEMBER', 'No such member'));
+      const target = io.sockets.sockets.get(memberId);
+      if (target) {
+        target.leave(room);
+        target.emit('kicked', { room });
       }
+      removeMember(room, memberId);
+      cb({ ok: true });
     });
 
-    socket.on('requestRoll', async ({ room, notation }, ack) => {
+    socket.on('rotateCode', ({ room, code }, cb) => {
+      cb = cb || (() => {});
+      const denied = ownedRoom(room, socket.id);
+      if (denied) return cb(denied);
+      const next = code ? normalizeCode(code) : newRoomCode();
+      if (!ROOM_CODE_RE.test(next)) return cb(roomError('BAD_REQUEST', 'room code must be 4-8 letters/numbers'));
+      rooms[room].code = next;
+      cb({ ok: true, code: next });
+    });
+
+    // Fair rooms: publish a commitment to a fresh server seed before the roll
+    socket.on('fairCommit', ({ room }, cb) => {
+      cb = cb || (() => {});
+      const r = rooms[room];
+      if (!r || !r.users[socket.id]) return cb(roomError('NOT_IN_ROOM', 'You are not in this room'));
+      if (!r.fair) return cb(roomError('BAD_REQUEST', 'This room does not use fair rolls'));
+      for (const id of Object.keys(r.commits)) if (r.commits[id].userId === socket.id) delete r.commits[id];
+      dropStale(r);
+      const serverSeed = newServerSeed();
+      const commitId = `${socket.id}-${Date.now()}`;
+      const commitment = commitmentFor(serverSeed);
+      r.commits[commitId] = { userId: socket.id, serverSeed, at: Date.now() };
+      io.to(room).emit('commit', { commitId, commitment, by: r.users[socket.id].username });
+      cb({ ok: true, commitId, commitment });
+    });
+
+    // Server-authoritative roll: the client animates its tray onto these results
+    socket.on('requestRoll', async ({ room, notation, faces, notations, fair }, ack) => {
+      ack = ack || (() => {});
       try {
         // notation: { set: ['d6','d6',...], constant: 0 }
-        const n = notation.set.length;
-        if (!n) return ack && ack({ error: 'empty notation' });
-
-        // Ask random.org for n decimal fractions
-        const payload = {
-          jsonrpc: '2.0',
-          method: 'generateDecimalFractions',
-          params: {
-            apiKey: RANDOM_ORG_API_KEY,
-            n: n,
-            decimalPlaces: 6
-          },
-          id: 1
-        };
-
-        const r = await fetch('https://api.random.org/json-rpc/1/invoke', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json-rpc' },
-          body: JSON.stringify(payload)
-        });
-        const data = await r.json();
-        let decimals = (data && data.result && data.result.random && data.result.random.data) || [];
-        if (decimals.length < n) {
-          // fallback to pseudo random
-          for (let i = decimals.length; i < n; ++i) decimals.push(Math.random());
-        }
+        const target = rooms[room];
+        if (!target || !target.users[socket.id]) return ack(roomError('NOT_IN_ROOM', 'You are not in this room'));
+        const set = (notation && notation.set) || [];
+        const n = set.length;
+        if (!n) return ack(roomError('BAD_REQUEST', 'empty notation'));
+        const picked = facesFor(set, faces, notations);
+        if (!picked) return ack(roomError('BAD_REQUEST', 'unknown die kind'));
 
-        // Map decimals to dice faces according to dice_face_range (same as dice.js)
-        const faceRanges = { 'd4': [1,4],'d6':[1,6],'d8':[1,8],'d10':[0,9],'d12':[1,12],'d20':[1,20],'d100':[0,9] };
-        const results = [];
-        for (let i = 0; i < n; ++i) {
-          const type = notation.set[i];
-          const rrange = faceRanges[type];
-          const min = rrange[0], max = rrange[1];
-          const span = max - min + 1;
-          const v = Math.floor(decimals[i] * span) + min;
-          // handle d10 where 10 -> 0 mapping in original code
-          if (type === 'd10' && v === 10) results.push(0);
-          else results.push(v);
+        let results, providers, reveal;
+        if (target.fair) {
+          const commit = fair && target.commits[fair.commitId];
+          if (!commit || commit.userId !== socket.id) return ack(roomError('BAD_REQUEST', 'fair rolls need a fresh commitment'));
+          if (!fair.clientSeed || typeof fair.clientSeed !== 'string') return ack(roomError('BAD_REQUEST', 'clientSeed required'));
+          delete target.commits[fair.commitId];
+          results = deriveResults(commit.serverSeed, fair.clientSeed, set, picked.faceFor);
+          providers = set.map(() => 'commit-reveal');
+          reveal = { commitId: fair.commitId, commitment: commitmentFor(commit.serverSeed), serverSeed: commit.serverSeed, clientSeed: fair.clientSeed, faces: picked.custom };
+        }
+        else {
+          const draws = await drawFractions(randomProviders, n);
+          // Map decimals to dice faces; ranges match the values of the client's DieSpecs
+          results = draws.map((d, i) => picked.faceFor(set[i], d.value));
+          // Which provider produced each value, so a fallback is visible to the room
+          providers = draws.map((d) => d.provider);
         }
 
-        // Broadcast roll to room
-        io.to(room).emit('roll', { notation, results, by: rooms[room] && rooms[room].users[socket.id] ? rooms[room].users[socket.id].username : 'unknown' });
-        ack && ack({ ok: true, results });
+        // Broadcast happens once the roller's tray has landed (see shareRoll)
+        const rollId = `${socket.id}-${Date.now()}`;
+        dropStale(target);
+        target.pending[rollId] = { userId: socket.id, set, results, providers, reveal, dice: picked.dice, at: Date.now() };
+        ack({ ok: true, rollId, results, providers, reveal });
       }
       catch (e) {
         console.error('requestRoll error', e);
-        ack && ack({ error: e.message });
+        ack(roomError('ROLL_FAILED', e.message));
       }
     });
 
+    // A client finished a roll in its own tray; relay it to everyone else
+    socket.on('shareRoll', ({ room, roll }) => {
+      const user = rooms[room] && rooms[room].users[socket.id];
+      if (!user || !roll) return;
+      // Only vouch for a roll the requests behind it add up to. Rolls whose rules threw
+      // extra dice list every request as a wave instead.
+      const waves = Array.isArray(roll.waves) && roll.waves.length ? roll.waves : [{ rollId: roll.rollId, dice: roll.dice }];
+      const pending = waves.map((w) => w && w.rollId && rooms[room].pending[w.rollId]);
+      let vouched = null;
+      let providers, reveal;
+      if (pending.every((p) => p && p.userId === socket.id) && roll.rollId && waves[0].rollId === roll.rollId) {
+        providers = [].concat(...pending.map((p) => p.providers));
+        reveal = pending[0].reveal;
+        waves.forEach((w) => delete rooms[room].pending[w.rollId]);
+        const listed = pending.every((p, k) => {
+          const values = (waves[k].dice || []).map((d) => d.value);
+          return values.length === p.results.length && values.every((v, i) => v === p.results[i]);
+        });
+        // The counted dice and total come from the server's own results; later hold-and-reroll
+        // steps keep dice from the step of the same roll that was last vouched for
+        if (listed) vouched = checkRoll(roll, pending, rooms[room].vouched[socket.id], FACE_RANGES);
+      }
+      const authoritative = !!vouched;
+      if (vouched) rooms[room].vouched[socket.id] = vouched;
+      else delete rooms[room].vouched[socket.id];
+      const shared = {
+        ...roll,
+        authoritative,
+        providers: authoritative ? providers : undefined,
+        reveal: authoritative ? reveal : undefined,
+        waves: Array.isArray(roll.waves) ? roll.waves.map((w, k) => ({ ...w, providers: authoritative ? pending[k].providers : undefined, reveal: authoritative ? pending[k].reveal : undefined })) : undefined,
+        id: String(roll.rollId || roll.id || `${socket.id}-${Date.now()}`),
+        by: user.username,
+        color: user.color,
+        at: Date.now()
+      };
+      const history = rooms[room].history;
+      // Replays go to live members only; they'd bloat the stored history
+      history.push({ ...shared, replay: undefined });
+      if (history.length > HISTORY_LIMIT) history.splice(0, history.length - HISTORY_LIMIT);
+      socket.to(room).emit('roll', shared);
+    });
+
     socket.on('disconnect', () => {
       // remove from any rooms
-      for (const room in rooms) {
-        if (rooms[room].users && rooms[room].users[socket.id]) delete rooms[room].users[socket.id];
-        io.to(room).emit('users', Object.values((rooms[room] && rooms[room].users) || {}));
-      }
+      for (const room of Object.keys(rooms)) removeMember(room, socket.id);
     });
   });
 
@@ -0,0 +1,24 @@
+/* Commit-reveal ("provably fair") rolls.
+ *
+ * Before a roll the server publishes sha256(serverSeed). The roller sends its
+ * own clientSeed, and die i gets the fraction
+ *   HMAC-SHA256(key = serverSeed bytes, msg = `${clientSeed}:${i}:${kind}`)[0..6] / 2^48
+ * mapped onto the die's faces by `faceFor`. Revealing serverSeed afterwards lets any
+ * client recompute the faces; src/fair.ts is the browser side of this and
+ * must stay in sync with it.
+ */
+const crypto = require('crypto');
+
+const newServerSeed = () => crypto.randomBytes(32).toString('hex');
+
+const commitmentFor = (serverSeed) => crypto.createHash('sha256').update(Buffer.from(serverSeed, 'hex')).digest('hex');
+
+function deriveResults(serverSeed, clientSeed, set, faceFor) {
+  const key = Buffer.from(serverSeed, 'hex');
+  return set.map((kind, i) => {
+    const digest = crypto.createHmac('sha256', key).update(`${clientSeed}:${i}:${kind}`).digest();
+    return faceFor(kind, digest.readUIntBE(0, 6) / 2 ** 48);
+  });
+}
+
+module.exports = { newServerSeed, commitmentFor, deriveResults };
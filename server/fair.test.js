@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import fair from './fair';
+import { deriveResults as deriveInBrowser, verifyFairRoll } from '../src/fair';
+
+const { newServerSeed, commitmentFor, deriveResults } = fair;
+
+// What server.js builds for a d20 next to a custom die sent with faces
+const faces = { 'pack:x': [2, 4, 8] };
+const faceFor = (kind, fraction) => (kind === 'd20' ? Math.floor(fraction * 20) + 1 : faces[kind][Math.floor(fraction * faces[kind].length)]);
+
+describe('deriveResults', () => {
+  it('matches the browser side, custom faces included', async () => {
+    const serverSeed = newServerSeed();
+    const set = ['d20', 'pack:x', 'pack:x'];
+    const results = deriveResults(serverSeed, 'client', set, faceFor);
+    expect(await deriveInBrowser(serverSeed, 'client', set, faces)).toEqual(results);
+    const reveal = { commitId: 'c', commitment: commitmentFor(serverSeed), serverSeed, clientSeed: 'client', faces };
+    expect(await verifyFairRoll(reveal, reveal.commitment, set, results)).toBe(true);
+  });
+
+  it('fails verification when the faces are swapped afterwards', async () => {
+    const serverSeed = newServerSeed();
+    const set = ['pack:x'];
+    const results = deriveResults(serverSeed, 'client', set, faceFor);
+    const reveal = { commitId: 'c', commitment: commitmentFor(serverSeed), serverSeed, clientSeed: 'client', faces: { 'pack:x': [0, 0, 0] } };
+    expect(await verifyFairRoll(reveal, reveal.commitment, set, results)).toBe(false);
+  });
+});
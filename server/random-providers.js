@@ -0,0 +1,110 @@
+/* Randomness providers for server-side rolls.
+ *
+ * A provider is { name, fractions(n) } where fractions resolves to n uniform
+ * numbers in [0, 1). Providers throw (or return fewer values) when they can't
+ * deliver; drawFractions then falls through to the next one in the chain and
+ * records which provider produced each value.
+ */
+const crypto = require('crypto');
+const fetch = require('node-fetch');
+
+const RANDOM_ORG_URL = 'https://api.random.org/json-rpc/1/invoke';
+
+function randomOrgProvider({ apiKey, url = RANDOM_ORG_URL, timeoutMs = 4000 }) {
+  if (!apiKey) throw new Error('random.org provider needs an API key');
+  let id = 0;
+  return {
+    name: 'random.org',
+    async fractions(n) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        const r = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json-rpc' },
+          body: JSON.stringify({
+            jsonrpc: '2.0',
+            method: 'generateDecimalFractions',
+            params: { apiKey, n, decimalPlaces: 6 },
+            id: ++id
+          }),
+          signal: controller.signal
+        });
+        const data = await r.json();
+        if (data && data.error) throw new Error(`random.org: ${data.error.message}`);
+        const values = (data && data.result && data.result.random && data.result.random.data) || [];
+        return values.filter((v) => typeof v === 'number' && v >= 0 && v < 1);
+      }
+      finally {
+        clearTimeout(timer);
+      }
+    }
+  };
+}
+
+function cryptoProvider() {
+  return {
+    name: 'crypto',
+    async fractions(n) {
+      const out = [];
+      for (let i = 0; i < n; ++i) out.push(crypto.randomBytes(6).readUIntBE(0, 6) / 2 ** 48);
+      return out;
+    }
+  };
+}
+
+// mulberry32; deterministic for a given seed, which is all tests need
+function seededProvider(seed = 1) {
+  let state = seed >>> 0;
+  return {
+    name: 'seeded',
+    async fractions(n) {
+      const out = [];
+      for (let i = 0; i < n; ++i) {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        out.push(((t ^ (t >>> 14)) >>> 0) / 4294967296);
+      }
+      return out;
+    }
+  };
+}
+
+/** Draws n fractions, falling back along `chain`. Returns [{ value, provider }]. */
+async function drawFractions(chain, n) {
+  const out = [];
+  for (const provider of chain) {
+    if (out.length >= n) break;
+    try {
+      const values = await provider.fractions(n - out.length);
+      for (const value of values.slice(0, n - out.length)) out.push({ value, provider: provider.name });
+    }
+    catch (e) {
+      console.warn(`random provider ${provider.name} failed:`, e.message);
+    }
+  }
+  if (out.length < n) throw new Error('no random provider could produce enough values');
+  return out;
+}
+
+/**
+ * DICE_RANDOM_PROVIDER = random.org | crypto | seeded (default: random.org when
+ * RANDOM_ORG_API_KEY is set, else crypto). random.org falls back to crypto.
+ */
+function providerChainFromEnv(env = process.env) {
+  const kind = env.DICE_RANDOM_PROVIDER || (env.RANDOM_ORG_API_KEY ? 'random.org' : 'crypto');
+  switch (kind) {
+    case 'random.org':
+      return [randomOrgProvider({ apiKey: env.RANDOM_ORG_API_KEY, url: env.RANDOM_ORG_URL || RANDOM_ORG_URL }), cryptoProvider()];
+    case 'crypto':
+      return [cryptoProvider()];
+    case 'seeded':
+      return [seededProvider(parseInt(env.DICE_RANDOM_SEED || '1', 10))];
+    default:
+      throw new Error(`unknown DICE_RANDOM_PROVIDER "${kind}"`);
+  }
+}
+
+module.exports = { randomOrgProvider, cryptoProvider, seededProvider, drawFractions, providerChainFromEnv };
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMockRandomOrg } from '../scripts/mock-random-org';
+import { drawFractions, providerChainFromEnv, randomOrgProvider, seededProvider } from './random-providers';
+
+let mock;
+
+// Starts the mock on a free port; resolves to its URL
+function startMock(options) {
+  mock = createMockRandomOrg(options);
+  return new Promise((resolve) => mock.listen(0, () => resolve(`http://localhost:${mock.address().port}`)));
+}
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  if (mock) await new Promise((resolve) => mock.close(resolve));
+  mock = undefined;
+});
+
+describe('random.org provider against the mock', () => {
+  it('draws every value from random.org when it answers', async () => {
+    const url = await startMock({ next: () => 0.25 });
+    const chain = providerChainFromEnv({ RANDOM_ORG_API_KEY: 'test', RANDOM_ORG_URL: url });
+    const drawn = await drawFractions(chain, 5);
+    expect(drawn).toEqual(Array.from({ length: 5 }, () => ({ value: 0.25, provider: 'random.org' })));
+  });
+
+  it('falls back to the next provider when random.org fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const url = await startMock({ fail: true });
+    const chain = providerChainFromEnv({ RANDOM_ORG_API_KEY: 'test', RANDOM_ORG_URL: url });
+    const drawn = await drawFractions(chain, 3);
+    expect(drawn.map((d) => d.provider)).toEqual(['crypto', 'crypto', 'crypto']);
+    expect(console.warn).toHaveBeenCalledWith('random provider random.org failed:', 'random.org: mock failure');
+  });
+
+  it('reports the error when no provider can draw', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const url = await startMock({ fail: true });
+    const provider = randomOrgProvider({ apiKey: 'test', url });
+    await expect(provider.fractions(2)).rejects.toThrow('random.org: mock failure');
+    await expect(drawFractions([provider], 2)).rejects.toThrow('no random provider could produce enough values');
+  });
+
+  it('tops up answers out of range from the next provider', async () => {
+    // Values of 1 aren't in [0, 1), so random.org delivers none of them
+    const url = await startMock({ next: () => 1 });
+    const drawn = await drawFractions([randomOrgProvider({ apiKey: 'test', url }), seededProvider(7)], 2);
+    expect(drawn.map((d) => d.provider)).toEqual(['seeded', 'seeded']);
+  });
+});
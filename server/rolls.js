@@ -0,0 +1,326 @@
+/* Dice notation, as far as the server needs it to vouch for a roll.
+ *
+ * A roll whose rules threw extra waves (rerolls, explosions) shares counted
+ * dice and a total the server never saw. To vouch for them it parses the
+ * roll's notation, hands each wave's results to the dice that asked for them
+ * and evaluates the roll itself. This is the server side of src/notation.ts
+ * (parser, rules and evaluation) and of how DiceApp.tsx throws waves; it must
+ * stay in sync with both.
+ */
+const MAX_DICE = 60;
+// Throws one die may take before its rules stop asking for more
+const MAX_CHAIN = 10;
+// Explosions add dice, so they stop once the tray holds this many
+const MAX_TRAY_DICE = MAX_DICE * 2;
+
+// How kinds are written when it isn't the kind itself, and which kinds are symbol dice
+const WRITTEN = { d100: ['d100', 'd%'], boost: ['dboost'], setback: ['dsetback'], ability: ['dability'], difficulty: ['ddifficulty'], proficiency: ['dproficiency'], challenge: ['dchallenge'] };
+const SYMBOL_KINDS = ['boost', 'setback', 'ability', 'difficulty', 'proficiency', 'challenge'];
+
+/**
+ * The dice a roll may use: every kind in `ranges` (kind -> [min, max]) plus
+ * `custom` ones (kind -> { faces, notation }).
+ */
+function diceTable(ranges, custom = {}) {
+  const table = {};
+  for (const kind of Object.keys(ranges)) table[kind] = { written: WRITTEN[kind] || [kind], range: ranges[kind], symbols: SYMBOL_KINDS.includes(kind) };
+  for (const kind of Object.keys(custom)) {
+    const { faces, notation } = custom[kind];
+    table[kind] = { written: [notation], range: [Math.min(...faces), Math.max(...faces)], symbols: false };
+  }
+  return table;
+}
+
+const matches = ({ op, value }, v) => (op === '=' ? v === value : op === '<' ? v < value : op === '>' ? v > value : op === '<=' ? v <= value : v >= value);
+const faceValues = (lo, hi) => Array.from({ length: hi - lo + 1 }, (_, i) => lo + i);
+
+/** Parses `text` as src/notation.ts does; throws on anything it wouldn't accept. */
+function parseNotation(text, table) {
+  const src = String(text);
+  let i = 0;
+  const fail = (message) => {
+    throw new Error(message);
+  };
+  const peek = () => {
+    while (i < src.length && /\s/.test(src[i])) i++;
+    return src[i] || '';
+  };
+  const number = () => {
+    const m = /^\d+/.exec(src.slice(i));
+    if (!m) return null;
+    i += m[0].length;
+    return parseInt(m[0], 10);
+  };
+  const compare = () => {
+    const m = /^(?:(<=|>=|<|>|=)(-?\d+)|(\d+))/.exec(src.slice(i));
+    if (!m) return null;
+    i += m[0].length;
+    return m[3] !== undefined ? { op: '=', value: parseInt(m[3], 10) } : { op: m[1], value: parseInt(m[2], 10) };
+  };
+  const dieKind = () => {
+    const rest = src.slice(i).toLowerCase();
+    let best = null;
+    for (const kind of Object.keys(table))
+      for (const written of table[kind].written) {
+        const w = written.toLowerCase();
+        if (rest.startsWith(w) && (!best || w.length > best.length)) best = { kind, length: w.length };
+      }
+    if (!best || /^\d/.test(rest.slice(best.length))) return null;
+    i += best.length;
+    return best.kind;
+  };
+  const dice = (count) => {
+    const kind = dieKind();
+    if (!kind) fail('Unsupported die size');
+    const n = count === null ? 1 : count;
+    if (n < 1 || n > MAX_DICE) fail('Bad dice count');
+    const node = { type: 'dice', count: n, kind };
+    const [lo, hi] = table[kind].range;
+    for (;;) {
+      const rest = src.slice(i);
+      const keep = /^(kh|kl|dh|dl|k)(\d*)/i.exec(rest);
+      const rule = /^(!!|!|ro|r)/i.exec(rest);
+      if (keep) {
+        if (node.keep) fail('Only one keep rule');
+        i += keep[0].length;
+        const mode = keep[1].toLowerCase() === 'k' ? 'kh' : keep[1].toLowerCase();
+        const keepCount = keep[2] ? parseInt(keep[2], 10) : 1;
+        if (keepCount > n) fail('Bad keep count');
+        node.keep = { mode, count: keepCount };
+      }
+      else if (rule) {
+        i += rule[0].length;
+        const written = rule[1].toLowerCase();
+        if (table[kind].symbols) fail('Only numbered dice can explode or reroll');
+        if (written[0] === '!') {
+          if (node.explode) fail('Only one explode rule');
+          const when = compare() || { op: '=', value: hi };
+          if (faceValues(lo, hi).every((v) => matches(when, v))) fail('Every face would explode');
+          node.explode = { compound: written === '!!', when };
+        }
+        else {
+          if (node.reroll) fail('Only one reroll rule');
+          const when = compare() || { op: '=', value: lo };
+          const once = written === 'ro';
+          if (!once && faceValues(lo, hi).every((v) => matches(when, v))) fail('Every face would be rerolled');
+          node.reroll = { once, when };
+        }
+      }
+      else break;
+    }
+    return node;
+  };
+  const primary = () => {
+    const c = peek();
+    if (c === '(') {
+      i++;
+      const inner = expr();
+      if (peek() !== ')') fail('Expected ")"');
+      i++;
+      return { type: 'group', expr: inner };
+    }
+    const count = number();
+    if (/[dD]/.test(src[i] || '')) return dice(count);
+    if (count === null) fail('Unexpected input');
+    return { type: 'constant', value: count };
+  };
+  const unary = () => {
+    if (peek() === '-') {
+      i++;
+      return { type: 'negate', expr: unary() };
+    }
+    return primary();
+  };
+  const term = () => {
+    let left = unary();
+    for (let c = peek(); c === '*' || c === '/'; c = peek()) {
+      i++;
+      left = { type: 'binary', op: c, left, right: unary() };
+    }
+    return left;
+  };
+  function expr() {
+    let left = term();
+    for (let c = peek(); c === '+' || c === '-'; c = peek()) {
+      i++;
+      left = { type: 'binary', op: c, left, right: term() };
+    }
+    return left;
+  }
+
+  if (!src.trim()) fail('Empty notation');
+  const node = expr();
+  if (peek()) fail('Unexpected input');
+  const count = diceNodes(node).length;
+  if (count === 0 || count > MAX_DICE) fail('Bad dice count');
+  return node;
+}
+
+/** A plain sum of `kinds`, for rolls of picked dice that have no notation. */
+function sumOf(kinds) {
+  return kinds.map((kind) => ({ type: 'dice', count: 1, kind })).reduce((left, right) => ({ type: 'binary', op: '+', left, right }));
+}
+
+function diceNodes(node) {
+  switch (node.type) {
+    case 'dice':
+      return Array.from({ length: node.count }, () => node);
+    case 'constant':
+      return [];
+    case 'group':
+    case 'negate':
+      return diceNodes(node.expr);
+    default:
+      return [...diceNodes(node.left), ...diceNodes(node.right)];
+  }
+}
+
+/** Die kinds in the order their throws are consumed. */
+const diceForRoll = (node) => diceNodes(node).map((n) => n.kind);
+
+// One die's throws against its node's rules; `explosions` counts the dice they added
+function readChain(node, die, throws) {
+  const { explode, reroll } = node;
+  const rolls = [];
+  let rerolled = [];
+  let exploded = false;
+  let next = null;
+  for (const value of throws) {
+    next = null;
+    if (reroll && matches(reroll.when, value) && !(reroll.once && rerolled.length > 0)) {
+      rerolled.push(value);
+      next = 'reroll';
+      continue;
+    }
+    rolls.push({ value, die });
+    if (!explode || !matches(explode.when, value)) break;
+    rerolled = [];
+    exploded = true;
+    next = 'explode';
+  }
+  if (throws.length >= MAX_CHAIN) next = null;
+  const explosions = exploded ? rolls.length - 1 : 0;
+  if (explode && explode.compound && rolls.length > 1) return { rolls: [{ value: rolls.reduce((a, r) => a + r.value, 0), die }], next, explosions };
+  return { rolls, next, explosions };
+}
+
+function keptFlags(values, keep) {
+  if (!keep) return values.map(() => true);
+  const order = values.map((v, i) => ({ v, i })).sort((a, b) => (keep.mode.endsWith('h') ? b.v - a.v : a.v - b.v));
+  const picked = new Set(order.slice(0, keep.count).map((o) => o.i));
+  const keeping = keep.mode[0] === 'k';
+  return values.map((_, i) => picked.has(i) === keeping);
+}
+
+/**
+ * Every roll the evaluation counted as { kind, value, die } (die in
+ * `diceForRoll` order), the total and what its arithmetic added to the kept
+ * dice, as `evaluateRoll` in src/notation.ts.
+ */
+function evaluateRoll(node, throws, table) {
+  const rolls = [];
+  let counted = 0;
+  let cursor = 0;
+  const visit = (n) => {
+    switch (n.type) {
+      case 'dice': {
+        const first = cursor;
+        const chains = throws.slice(cursor, cursor + n.count).flatMap((t, i) => readChain(n, i, t).rolls);
+        cursor += n.count;
+        const kept = keptFlags(chains.map((r) => r.value), n.keep);
+        for (const r of chains) rolls.push({ kind: n.kind, value: r.value, die: first + r.die });
+        const subtotal = table[n.kind].symbols ? 0 : chains.reduce((a, r, i) => a + (kept[i] ? r.value : 0), 0);
+        counted += subtotal;
+        return subtotal;
+      }
+      case 'constant':
+        return n.value;
+      case 'group':
+        return visit(n.expr);
+      case 'negate':
+        return -visit(n.expr);
+      default: {
+        const a = visit(n.left);
+        const b = visit(n.right);
+        if (n.op === '+') return a + b;
+        if (n.op === '-') return a - b;
+        if (n.op === '*') return a * b;
+        return b === 0 ? 0 : Math.floor(a / b);
+      }
+    }
+  };
+  const total = visit(node);
+  return { rolls, total, modifier: total - counted };
+}
+
+/**
+ * Hands each wave's results to the dice that threw it, the way the tray
+ * throws waves: the first wave throws `thrown` (die indices, ascending) and
+ * every later one whatever the rules ask for next. `start` has each die's
+ * throws from before, for held dice. Null when the waves don't fit the roll.
+ */
+function throwsFromWaves(node, waves, start, thrown) {
+  const nodes = diceNodes(node);
+  const kinds = nodes.map((n) => n.kind);
+  const throws = start.map((t) => [...t]);
+  const fits = (set, dice) => set.length === dice.length && set.every((kind, i) => kind === kinds[dice[i]]);
+  if (!waves.length || !fits(waves[0].set, thrown)) return null;
+  thrown.forEach((die, i) => throws[die].push(waves[0].results[i]));
+  // Tray dice: one per rolled die and one per die its explosions added
+  let selections = nodes.reduce((a, n, i) => a + 1 + (thrown.includes(i) ? 0 : readChain(n, i, start[i]).explosions), 0);
+  for (let k = 1; ; k++) {
+    let room = MAX_TRAY_DICE - selections;
+    const pending = nodes.flatMap((n, i) => {
+      const { next } = readChain(n, i, throws[i]);
+      return next && (next === 'reroll' || room-- > 0) ? [{ die: i, reroll: next === 'reroll' }] : [];
+    });
+    if (k === waves.length) return pending.length ? null : throws;
+    if (!fits(waves[k].set, pending.map((p) => p.die))) return null;
+    pending.forEach((p, i) => {
+      throws[p.die].push(waves[k].results[i]);
+      if (!p.reroll) selections++;
+    });
+  }
+}
+
+const sameDice = (claimed, rolls) => Array.isArray(claimed) && claimed.length === rolls.length && claimed.every((d, i) => !!d && d.kind === rolls[i].kind && d.value === rolls[i].value);
+
+/**
+ * Checks a shared roll against the requests behind it: `waves` are the
+ * server's own ({ set, results, dice }, first one first), `last` is what the
+ * previous step left for hold-and-reroll steps, and `ranges` the built-in
+ * dice. The roll's notation is evaluated on the wave results; its dice,
+ * total and modifier (and a step's held dice) must be what that gives.
+ * Returns what the next step needs, or null when the roll doesn't hold up.
+ */
+function checkRoll(roll, waves, last, ranges) {
+  const step = roll.step;
+  if (step && (!last || last.first !== step.of || last.notation !== roll.notation)) return null;
+  const custom = Object.assign({}, last && last.dice, ...waves.map((w) => w.dice));
+  const table = diceTable(ranges, custom);
+  let node;
+  try {
+    node = step ? last.node : roll.notation ? parseNotation(roll.notation, table) : sumOf(waves[0].set);
+  }
+  catch (e) {
+    return null;
+  }
+  const kinds = diceForRoll(node);
+  // Later steps throw the dice that weren't held again, and keep the rest as they were
+  let thrown = kinds.map((_, i) => i);
+  let start = kinds.map(() => []);
+  if (step) {
+    thrown = step.rethrown;
+    if (!Array.isArray(thrown) || !thrown.length || !thrown.every((die, i) => Number.isInteger(die) && die >= 0 && die < kinds.length && (i === 0 || die > thrown[i - 1]))) return null;
+    start = last.throws.map((t, i) => (thrown.includes(i) ? [] : t));
+  }
+  const throws = throwsFromWaves(node, waves, start, thrown);
+  if (!throws) return null;
+  const { rolls, total, modifier } = evaluateRoll(node, throws, table);
+  if (!sameDice(roll.dice, rolls) || roll.total !== total) return null;
+  if (roll.modifier !== undefined && roll.modifier !== modifier) return null;
+  if (step && !sameDice(step.held, rolls.filter((r) => !thrown.includes(r.die)))) return null;
+  return { first: step ? step.of : roll.rollId, notation: roll.notation, node, throws, dice: custom };
+}
+
+module.exports = { MAX_DICE, diceTable, parseNotation, diceForRoll, evaluateRoll, throwsFromWaves, checkRoll };
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import rolls from './rolls';
+
+const { checkRoll, diceTable, parseNotation } = rolls;
+
+const RANGES = { d6: [1, 6], d20: [1, 20], d100: [1, 100], boost: [1, 6] };
+const table = diceTable(RANGES);
+
+// What requestRoll keeps for each wave
+const wave = (set, results, dice = {}) => ({ set, results, dice });
+
+describe('parseNotation', () => {
+  it('reads what the client writes', () => {
+    expect(parseNotation('4d6kh3 + 2', table)).toEqual({
+      type: 'binary',
+      op: '+',
+      left: { type: 'dice', count: 4, kind: 'd6', keep: { mode: 'kh', count: 3 } },
+      right: { type: 'constant', value: 2 }
+    });
+    expect(parseNotation('1d%', table)).toEqual({ type: 'dice', count: 1, kind: 'd100' });
+  });
+
+  it('rejects what the client would', () => {
+    for (const text of ['', '1d7', '2d6kh3', '61d6', '1dboost!', '1d6r<7', '3'])
+      expect(() => parseNotation(text, table)).toThrow();
+  });
+});
+
+describe('checkRoll', () => {
+  it('vouches for exploded dice and the total the waves add up to', () => {
+    const roll = { rollId: 'a', notation: '2d6! + 1', dice: [{ kind: 'd6', value: 6 }, { kind: 'd6', value: 4 }, { kind: 'd6', value: 3 }], total: 14, modifier: 1 };
+    const vouched = checkRoll(roll, [wave(['d6', 'd6'], [6, 3]), wave(['d6'], [4])], undefined, RANGES);
+    expect(vouched).toMatchObject({ first: 'a', throws: [[6, 4], [3]] });
+  });
+
+  it('refuses made-up dice or a made-up total next to real waves', () => {
+    const waves = [wave(['d6', 'd6'], [6, 3]), wave(['d6'], [4])];
+    const dice = [{ kind: 'd6', value: 6 }, { kind: 'd6', value: 4 }, { kind: 'd6', value: 3 }];
+    const roll = { rollId: 'a', notation: '2d6! + 1', dice, total: 14 };
+    expect(checkRoll({ ...roll, total: 40 }, waves, undefined, RANGES)).toBeNull();
+    expect(checkRoll({ ...roll, dice: dice.map((d) => ({ ...d, value: 6 })) }, waves, undefined, RANGES)).toBeNull();
+    expect(checkRoll({ ...roll, modifier: 5 }, waves, undefined, RANGES)).toBeNull();
+  });
+
+  it('refuses waves that are not what the rules asked for', () => {
+    const roll = { rollId: 'a', notation: '2d6!', dice: [{ kind: 'd6', value: 6 }, { kind: 'd6', value: 3 }], total: 9 };
+    // The 6 exploded, so the roll isn't over after one wave
+    expect(checkRoll(roll, [wave(['d6', 'd6'], [6, 3])], undefined, RANGES)).toBeNull();
+  });
+
+  it('counts dropped dice and rerolls as the client does', () => {
+    const roll = { rollId: 'a', notation: '2d20kh1r1', dice: [{ kind: 'd20', value: 7 }, { kind: 'd20', value: 15 }], total: 15, modifier: 0 };
+    expect(checkRoll(roll, [wave(['d20', 'd20'], [1, 15]), wave(['d20'], [7])], undefined, RANGES)).not.toBeNull();
+  });
+
+  it('sums picked dice that have no notation, symbol dice adding nothing', () => {
+    const roll = { rollId: 'a', dice: [{ kind: 'd6', value: 2 }, { kind: 'boost', value: 5 }], total: 2 };
+    expect(checkRoll(roll, [wave(['d6', 'boost'], [2, 5])], undefined, RANGES)).not.toBeNull();
+    expect(checkRoll({ ...roll, total: 7 }, [wave(['d6', 'boost'], [2, 5])], undefined, RANGES)).toBeNull();
+  });
+
+  it('reads custom dice by the notation they were requested with', () => {
+    const dice = { dstar: { faces: [2, 4, 8], notation: 'dstar' } };
+    const roll = { rollId: 'a', notation: '2dstar', dice: [{ kind: 'dstar', value: 8 }, { kind: 'dstar', value: 2 }], total: 10 };
+    expect(checkRoll(roll, [wave(['dstar', 'dstar'], [8, 2], dice)], undefined, RANGES)).not.toBeNull();
+  });
+
+  it('keeps held dice from the step before and checks the rest against the new wave', () => {
+    const first = { rollId: 'a', notation: '3d6', dice: [2, 5, 6].map((value) => ({ kind: 'd6', value })), total: 13 };
+    const last = checkRoll(first, [wave(['d6', 'd6', 'd6'], [2, 5, 6])], undefined, RANGES);
+    const held = [{ kind: 'd6', value: 5 }, { kind: 'd6', value: 6 }];
+    const next = { rollId: 'b', notation: '3d6', dice: [{ kind: 'd6', value: 4 }, ...held], total: 15, step: { of: 'a', number: 2, held, rethrown: [0] } };
+    expect(checkRoll(next, [wave(['d6'], [4])], last, RANGES)).toMatchObject({ first: 'a', throws: [[4], [5], [6]] });
+    // Dice the step before never rolled can't be held
+    const forged = [{ kind: 'd6', value: 6 }, { kind: 'd6', value: 6 }];
+    expect(checkRoll({ ...next, dice: [{ kind: 'd6', value: 4 }, ...forged], total: 16, step: { ...next.step, held: forged } }, [wave(['d6'], [4])], last, RANGES)).toBeNull();
+    expect(checkRoll(next, [wave(['d6'], [4])], undefined, RANGES)).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import React from "react";
+import type { CheckMode, RollCheck } from "./checks";
+
+const MODES: { mode: CheckMode; name: string }[] = [
+  { mode: "normal", name: "Normal" },
+  { mode: "advantage", name: "Advantage" },
+  { mode: "disadvantage", name: "Disadvantage" },
+];
+
+/** Toolbar control for d20 advantage/disadvantage and a DC to beat. */
+export function CheckPicker({
+  check,
+  onChange,
+  disabled,
+}: {
+  check: RollCheck;
+  onChange: (check: RollCheck) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <label
+      style={{ display: "flex", gap: 4, alignItems: "center", fontSize: 13 }}
+      title="Advantage rolls a single d20 twice and keeps the higher"
+    >
+      <select
+        value={check.mode}
+        onChange={(e) =>
+          onChange({ ...check, mode: e.currentTarget.value as CheckMode })
+        }
+        disabled={disabled}
+        aria-label="d20 mode"
+        style={{ fontSize: 13, padding: "5px 4px", borderRadius: 6 }}
+      >
+        {MODES.map(({ mode, name }) => (
+          <option key={mode} value={mode}>
+            {name}
+          </option>
+        ))}
+      </select>
+      DC
+      <input
+        type="number"
+        min={1}
+        value={check.dc ?? ""}
+        placeholder="–"
+        onChange={(e) => {
+          const dc = parseInt(e.currentTarget.value, 10);
+          onChange({ ...check, dc: Number.isNaN(dc) ? undefined : dc });
+        }}
+        disabled={disabled}
+        aria-label="Difficulty class"
+        style={{ width: 44, fontSize: 13, padding: "5px 4px" }}
+      />
+    </label>
+  );
+}
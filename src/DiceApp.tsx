@@ -1,202 +1,1367 @@
 "use client";
 
-import React, { useCallback, useEffect, useMemo, useState } from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import { Canvas, useThree } from "@react-three/fiber";
+import * as THREE from "three";
 import { Physics } from "@react-three/cannon";
 import { FloorDynamic, WallsDynamic } from "./FloorDynamic";
-import { Die, DiePlan } from "./Die";
 import {
-  D4,
-  D6,
-  D8,
-  D10,
-  D12,
-  D20,
+  CARRY_HEIGHT,
+  fitTray,
+  preRollPosition,
+  preRollSpacing,
+  WALL_THICKNESS,
+  type TraySize,
+} from "./tray";
+import { Die, DiePlan, type DieCarry, type DieHighlight } from "./Die";
+import {
   D10_TENS,
   D10_UNITS,
-  type DieSpec,
+  dieType,
+  dieTypes,
+  formatDiceValues,
+  formatDieValue,
+  isNumericDie,
   type DieKind,
 } from "./die-types";
-import type { UserConfig } from "./types";
+import "./narrative-dice";
+import { useDicePacks } from "./dice-packs";
+import { DicePackImport } from "./DicePackImport";
+import { MeshDieImport } from "./MeshDieImport";
+import { describeSymbolResult } from "./symbols";
+import {
+  describeReading,
+  readRoll,
+  resolveReading,
+  type DieMark,
+  type ReadDie,
+  type ReadingChoice,
+} from "./readings";
+import { ReadingPicker } from "./ReadingPicker";
+import {
+  applyCheckMode,
+  describeCheck,
+  readCheck,
+  type RollCheck,
+} from "./checks";
+import { CheckPicker } from "./CheckPicker";
+import {
+  diceForRoll,
+  evaluateRoll,
+  formatNotation,
+  MAX_DICE,
+  notationForDice,
+  NotationError,
+  parseNotation,
+  pendingThrows,
+  type PendingThrow,
+  type RollNode,
+  type RollResult,
+} from "./notation";
+import { useRoom } from "./room";
+import { describeProviders, FairBadge, RollFeed, RoomPanel } from "./RoomPanel";
+import { createClientSeed, verifyFairRoll, type FairStatus } from "./fair";
+import {
+  useRollHistory,
+  ROOM_SESSION,
+  SESSION_ID,
+  type HistoryEntry,
+} from "./history";
+import { HistoryPanel } from "./HistoryPanel";
+import { ReplayRecorder, type ReplayRecording } from "./replay";
+import { ReplayDice } from "./ReplayDice";
+import { createThrowSeed, dieThrowSeed, type Flick } from "./physics";
+import type { RolledDie, RollWave, UserConfig } from "./types";
 
-function TopDownCamera() {
-  const { camera } = useThree();
+/** Looks straight down on the tray, zoomed to fit whatever the screen. */
+function TopDownCamera({ tray }: { tray: TraySize }) {
+  const { camera, size } = useThree();
   useEffect(() => {
+    const { zoom, turned } = fitTray(tray, size.width, size.height);
+    // Screen up is -z, or +x when the tray is turned for an upright screen
+    camera.up.set(turned ? 1 : 0, 0, turned ? 0 : -1);
     camera.position.set(0, 26, 0);
     camera.lookAt(0, 0, 0);
-  }, [camera]);
+    camera.zoom = zoom;
+    camera.updateProjectionMatrix();
+  }, [camera, tray, size.width, size.height]);
   return null;
 }
 
-function preRollPosition(index: number): [number, number, number] {
-  const cols = 4,
-    spacing = 1.25;
-  const row = Math.floor(index / cols),
-    col = index % cols;
-  const startX = -4,
-    startZ = -2.5;
-  const x = startX + col * spacing,
-    z = startZ + row * spacing,
-    y = 1.5 + (row % 3) * 0.05;
-  return [x, y, z];
+/** Spacing of dice in the hand, and how far each reaches from its spot. */
+const CARRY_SPACING = 1.05;
+const CARRY_REACH = 0.7;
+/** How far back the pointer's movement counts toward a flick (ms). */
+const FLICK_WINDOW_MS = 100;
+
+/** Where each of `count` picked-up dice sits around the hand (x, z). */
+function carryOffsets(count: number): [number, number][] {
+  const cols = Math.ceil(Math.sqrt(count));
+  const rows = Math.ceil(count / cols);
+  return Array.from({ length: count }, (_, i) => [
+    ((i % cols) - (cols - 1) / 2) * CARRY_SPACING,
+    (Math.floor(i / cols) - (rows - 1) / 2) * CARRY_SPACING,
+  ]);
 }
 
-type Phase = "select" | "rolling" | "results";
+/** How far the hand may go from the middle (x, z) with the handful inside the walls. */
+function handLimit(tray: TraySize, offsets: [number, number][]) {
+  const reach = (axis: 0 | 1) =>
+    Math.max(0, ...offsets.map((o) => Math.abs(o[axis]))) + CARRY_REACH;
+  const inner = (size: number) => size / 2 - WALL_THICKNESS / 2;
+  return [
+    Math.max(0, inner(tray.width) - reach(0)),
+    Math.max(0, inner(tray.depth) - reach(1)),
+  ] as [number, number];
+}
+
+function clampHand(
+  x: number,
+  z: number,
+  [lx, lz]: [number, number],
+): [number, number] {
+  return [Math.min(lx, Math.max(-lx, x)), Math.min(lz, Math.max(-lz, z))];
+}
+
+/**
+ * Moves `hand` with the pointer while dice are picked up, and lets them go
+ * with the pointer's velocity over its last FLICK_WINDOW_MS. Listens on
+ * the window so a flick that leaves the canvas still throws.
+ */
+function FlickHand({
+  hand,
+  limit,
+  onRelease,
+}: {
+  hand: React.MutableRefObject<[number, number] | null>;
+  limit: [number, number];
+  onRelease: (flick: Flick) => void;
+}) {
+  const { camera, gl } = useThree();
+  const release = useRef(onRelease);
+  release.current = onRelease;
+
+  useEffect(() => {
+    const raycaster = new THREE.Raycaster();
+    const plane = new THREE.Plane(new THREE.Vector3(0, 1, 0), -CARRY_HEIGHT);
+    const pointer = new THREE.Vector2();
+    const point = new THREE.Vector3();
+    const samples: { t: number; x: number; z: number }[] = [];
+
+    const move = (e: PointerEvent) => {
+      const rect = gl.domElement.getBoundingClientRect();
+      pointer.set(
+        ((e.clientX - rect.left) / rect.width) * 2 - 1,
+        -((e.clientY - rect.top) / rect.height) * 2 + 1,
+      );
+      raycaster.setFromCamera(pointer, camera);
+      if (!raycaster.ray.intersectPlane(plane, point)) return;
+      const [x, z] = clampHand(point.x, point.z, limit);
+      hand.current = [x, z];
+      samples.push({ t: e.timeStamp, x, z });
+      while (samples.length > 2 && e.timeStamp - samples[0].t > FLICK_WINDOW_MS)
+        samples.shift();
+    };
+    const up = (e: PointerEvent) => {
+      // A hand held still before letting go just drops the dice
+      const recent = samples.filter(
+        (s) => e.timeStamp - s.t <= FLICK_WINDOW_MS,
+      );
+      const first = recent[0];
+      const last = recent[recent.length - 1];
+      const dt = first && last ? (last.t - first.t) / 1000 : 0;
+      release.current(
+        dt > 0 ? [(last.x - first.x) / dt, (last.z - first.z) / dt] : [0, 0],
+      );
+    };
+
+    document.body.style.cursor = "grabbing";
+    window.addEventListener("pointermove", move);
+    window.addEventListener("pointerup", up);
+    window.addEventListener("pointercancel", up);
+    return () => {
+      document.body.style.cursor = "";
+      window.removeEventListener("pointermove", move);
+      window.removeEventListener("pointerup", up);
+      window.removeEventListener("pointercancel", up);
+    };
+  }, [camera, gl, hand, limit]);
+  return null;
+}
+
+/** "hold": the results are in and dice are being picked to keep or rethrow. */
+type Phase = "select" | "rolling" | "results" | "hold";
 type Selection =
-  | { type: "single"; id: string }
+  | { type: "single"; id: string; kind: DieKind }
   | { type: "d100"; tensId: string; unitsId: string; gid: string };
 
-function useDiceTray() {
+/**
+ * Explosions stop adding dice once the tray holds this many; server/rolls.js
+ * counts them the same way.
+ */
+const MAX_TRAY_DICE = MAX_DICE * 2;
+
+/** Spots in the tray a die of `kind` takes; a d100 is two dice. */
+const slotsFor = (kind: DieKind) => (kind === "d100" ? 2 : 1);
+
+/** Dice for a `kind` at `base` of `count` spots laid out together. */
+function plansForKind(
+  tray: TraySize,
+  kind: DieKind,
+  base: number,
+  lift: number,
+  count: number,
+): { plans: DiePlan[]; selection: Selection } {
+  if (kind === "d100") {
+    const gid = crypto.randomUUID();
+    const tens: DiePlan = {
+      id: `d100t-${gid}`,
+      spec: D10_TENS,
+      position: preRollPosition(tray, base, lift, count),
+      asD100: { groupId: gid, role: "tens" },
+    };
+    const units: DiePlan = {
+      id: `d100u-${gid}`,
+      spec: D10_UNITS,
+      position: preRollPosition(tray, base + 1, lift, count),
+      asD100: { groupId: gid, role: "units" },
+    };
+    return {
+      plans: [tens, units],
+      selection: { type: "d100", tensId: tens.id, unitsId: units.id, gid },
+    };
+  }
+
+  const spec = dieType(kind)?.spec;
+  if (!spec) throw new Error(`No die registered for "${kind}".`);
+  const plan: DiePlan = {
+    id: `${kind}-${crypto.randomUUID()}`,
+    spec,
+    position: preRollPosition(tray, base, lift, count),
+  };
+  return { plans: [plan], selection: { type: "single", id: plan.id, kind } };
+}
+
+const selectionKind = (sel: Selection): DieKind =>
+  sel.type === "single" ? sel.kind : "d100";
+
+const selectionIds = (sel: Selection) =>
+  sel.type === "single" ? [sel.id] : [sel.tensId, sel.unitsId];
+
+function selectionValue(sel: Selection, values: Record<string, number>) {
+  if (sel.type === "single") return values[sel.id];
+  const tens = values[sel.tensId] ?? 0;
+  const units = values[sel.unitsId] ?? 0;
+  return tens === 0 && units === 0 ? 100 : tens + units;
+}
+
+/** What each die of a selection must land on to read `v` (d100 as 1–100). */
+function selectionTargets(sel: Selection, v: number): Record<string, number> {
+  if (sel.type === "single") return { [sel.id]: v };
+  return {
+    [sel.tensId]: v === 100 ? 0 : Math.floor(v / 10) * 10,
+    [sel.unitsId]: v % 10,
+  };
+}
+
+/** A tray die thrown in the current wave, and the rolled die it throws for. */
+type WaveEntry = { sel: number; die: number };
+
+/** Dice in a tray of size `tray`, and the roll they're thrown for. */
+function useDiceTray(tray: TraySize) {
   const [plans, setPlans] = useState<DiePlan[]>([]);
   const [values, setValues] = useState<Record<string, number>>({});
-  const [key, setKey] = useState(0);
   const [rollToken, setRollToken] = useState(0);
+  const [throwSeed, setThrowSeed] = useState(0);
   const [phase, setPhase] = useState<Phase>("select");
   const [order, setOrder] = useState<Selection[]>([]);
+  const [targets, setTargets] = useState<Record<string, number>>({});
+  const recorder = useMemo(() => new ReplayRecorder(), []);
+  const [recording, setRecording] = useState<ReplayRecording | null>(null);
 
-  useEffect(() => {
-    const onResize = () => setKey((k) => k + 1);
-    window.addEventListener("resize", onResize);
-    return () => window.removeEventListener("resize", onResize);
-  }, []);
+  // A roll throws in waves: the dice first, then whatever its rules add.
+  // `throws` has every value of each rolled die (in `diceForRoll` order)
+  // and `dieSel` the selection that last threw it; explosions add
+  // selections after the original ones. `thrownAt` is each die's wave token.
+  const [throws, setThrows] = useState<number[][]>([]);
+  const [dieSel, setDieSel] = useState<number[]>([]);
+  // The selection behind each of `throws`, to find a throw in the tray
+  const [throwSels, setThrowSels] = useState<number[][]>([]);
+  const [wave, setWave] = useState<WaveEntry[]>([]);
+  const [pendingWave, setPendingWave] = useState<PendingThrow[] | null>(null);
+  const [thrownAt, setThrownAt] = useState<Record<string, number>>({});
+  // Rethrowing the dice that weren't held starts another step of the roll;
+  // `rethrown` has those dice, in `diceForRoll` order
+  const [step, setStep] = useState(1);
+  const [rethrown, setRethrown] = useState<number[]>([]);
+  // How often each die of this step was set straight for landing cocked
+  const [cocked, setCocked] = useState<Record<string, number>>({});
+  // Which way the dice were flicked, when they were picked up and thrown
+  const [flick, setFlick] = useState<Flick | undefined>(undefined);
 
-  const addDie = useCallback(
-    (spec: DieSpec) => {
-      if (phase !== "select") return;
+  const [notation, setNotation] = useState<RollNode | null>(null);
 
-      if (spec.kind === "d100") {
-        const gid = crypto.randomUUID();
-        const base = plans.length;
-        const tens: DiePlan = {
-          id: `d100t-${gid}`,
-          spec: D10_TENS,
-          position: preRollPosition(base),
-          asD100: { groupId: gid, role: "tens" },
-        };
-        const units: DiePlan = {
-          id: `d100u-${gid}`,
-          spec: D10_UNITS,
-          position: preRollPosition(base + 1),
-          asD100: { groupId: gid, role: "units" },
-        };
-        setPlans((p) => [...p, tens, units]);
-        setOrder((o) => [
-          ...o,
-          { type: "d100", tensId: tens.id, unitsId: units.id, gid },
-        ]);
-        return;
+  const clearRoll = useCallback(() => {
+    setValues({});
+    setTargets({});
+    setThrows([]);
+    setDieSel([]);
+    setThrowSels([]);
+    setWave([]);
+    setPendingWave(null);
+    setThrownAt({});
+    setStep(1);
+    setRethrown([]);
+    setCocked({});
+    setRollToken(0);
+    setPhase("select");
+  }, []);
+
+  /** Replaces the tray with a fresh set of dice; not allowed mid-throw. */
+  const loadDice = useCallback(
+    (kinds: DieKind[], node: RollNode | null = null) => {
+      if (phase === "rolling") return;
+      const nextPlans: DiePlan[] = [];
+      const nextOrder: Selection[] = [];
+      const count = kinds.reduce((n, kind) => n + slotsFor(kind), 0);
+      for (const kind of kinds) {
+        const { plans: added, selection } = plansForKind(
+          tray,
+          kind,
+          nextPlans.length,
+          0,
+          count,
+        );
+        nextPlans.push(...added);
+        nextOrder.push(selection);
       }
+      setPlans(nextPlans);
+      setOrder(nextOrder);
+      setNotation(node);
+      clearRoll();
+    },
+    [tray, phase, clearRoll],
+  );
 
-      const pos = preRollPosition(plans.length);
-      const plan: DiePlan = {
-        id: `${spec.kind}-${crypto.randomUUID()}`,
-        spec,
-        position: pos,
-      };
-      setPlans((p) => [...p, plan]);
-      setOrder((o) => [...o, { type: "single", id: plan.id }]);
+  const addDie = useCallback(
+    (kind: DieKind) => {
+      if (phase !== "select") return;
+      const count = plans.length + slotsFor(kind);
+      // Dice already waiting move closer when the tray needs the room
+      if (preRollSpacing(tray, count) !== preRollSpacing(tray, plans.length))
+        return loadDice([...order.map(selectionKind), kind]);
+      const { plans: added, selection } = plansForKind(
+        tray,
+        kind,
+        plans.length,
+        0,
+        count,
+      );
+      setPlans((p) => [...p, ...added]);
+      setOrder((o) => [...o, selection]);
+      setNotation(null);
     },
-    [phase, plans.length],
+    [tray, phase, plans.length, order, loadDice],
+  );
+
+  const loadNotation = useCallback(
+    (node: RollNode) => loadDice(diceForRoll(node), node),
+    [loadDice],
   );
 
   const resetAll = useCallback(() => {
     setPlans([]);
     setOrder([]);
-    setValues({});
-    setRollToken(0);
-    setPhase("select");
-  }, []);
+    setNotation(null);
+    setRecording(null);
+    clearRoll();
+  }, [clearRoll]);
 
-  const roll = useCallback(() => {
-    if (phase !== "select" || plans.length === 0) return;
-    setValues({});
-    setPhase("rolling");
-    setRollToken((t) => t + 1);
-  }, [phase, plans.length]);
+  /**
+   * Throws one wave: `results` (one per entry) steer the dice as in `roll`,
+   * and `flick` aims it.
+   */
+  const launch = useCallback(
+    (
+      entries: WaveEntry[],
+      sels: Selection[],
+      results: number[] | undefined,
+      seed: number,
+      flick?: Flick,
+    ) => {
+      const token = rollToken + 1;
+      const ids = entries.flatMap((e) => selectionIds(sels[e.sel]));
+      setTargets((t) => {
+        const next = { ...t };
+        for (const id of ids) delete next[id];
+        if (results)
+          entries.forEach((e, i) =>
+            Object.assign(next, selectionTargets(sels[e.sel], results[i])),
+          );
+        return next;
+      });
+      setValues((v) => {
+        const next = { ...v };
+        for (const id of ids) delete next[id];
+        return next;
+      });
+      setThrownAt((t) => ({
+        ...t,
+        ...Object.fromEntries(ids.map((id) => [id, token])),
+      }));
+      setWave(entries);
+      setThrowSeed(seed);
+      setFlick(flick);
+      setRollToken(token);
+    },
+    [rollToken],
+  );
+
+  /**
+   * Throws every die. When `results` (one per selection, d100 as 1–100) is
+   * given, each die is steered so it reads that value once it lands.
+   * `seed` fixes the tumble; together with the roll token it determines
+   * every die's launch. `flick` throws the dice the way they were flicked.
+   */
+  const roll = useCallback(
+    (results?: number[], seed: number = createThrowSeed(), flick?: Flick) => {
+      if (phase !== "select" || plans.length === 0) return;
+      setTargets({});
+      setThrows(order.map(() => []));
+      setDieSel(order.map((_, i) => i));
+      setThrowSels(order.map(() => []));
+      setCocked({});
+      setRecording(null);
+      recorder.begin();
+      setPhase("rolling");
+      launch(
+        order.map((_, i) => ({ sel: i, die: i })),
+        order,
+        results,
+        seed,
+        flick,
+      );
+    },
+    [phase, plans.length, order, recorder, launch],
+  );
 
   const onTopValue = useCallback((id: string, value: number) => {
     setValues((v) => (v[id] === value ? v : { ...v, [id]: value }));
   }, []);
 
-  const resultsReady = useMemo(() => {
-    if (plans.length === 0) return false;
-    for (const sel of order) {
-      if (sel.type === "single") {
-        if (typeof values[sel.id] !== "number") return false;
-      } else {
-        if (
-          typeof values[sel.tensId] !== "number" ||
-          typeof values[sel.unitsId] !== "number"
-        )
-          return false;
-      }
-    }
-    return true;
-  }, [plans.length, order, values]);
+  const onCocked = useCallback((id: string) => {
+    setCocked((c) => ({ ...c, [id]: (c[id] ?? 0) + 1 }));
+  }, []);
 
+  const waveSettled = useMemo(
+    () =>
+      wave.length > 0 &&
+      wave.every(({ sel }) =>
+        selectionIds(order[sel]).every((id) => typeof values[id] === "number"),
+      ),
+    [wave, order, values],
+  );
+
+  // Once a wave lands, record it and either finish or ask for the next one
   useEffect(() => {
-    if (phase === "rolling" && resultsReady) setPhase("results");
-  }, [phase, resultsReady]);
-
-  const resultsList: number[] = useMemo(() => {
-    const out: number[] = [];
-    for (const sel of order) {
-      if (sel.type === "single") {
-        out.push(values[sel.id]);
-      } else {
-        const tens = values[sel.tensId] ?? 0;
-        const units = values[sel.unitsId] ?? 0;
-        let v = tens + units;
-        if (tens === 0 && units === 0) v = 100;
-        out.push(v);
-      }
+    if (phase !== "rolling" || !waveSettled) return;
+    const next = throws.map((t) => [...t]);
+    const nextSels = throwSels.map((t) => [...t]);
+    for (const { sel, die } of wave) {
+      next[die].push(selectionValue(order[sel], values));
+      nextSels[die].push(sel);
     }
-    return out;
-  }, [order, values]);
+    setThrows(next);
+    setThrowSels(nextSels);
+    setWave([]);
+    // Explosions add dice, so they stop once the tray is full
+    let room = MAX_TRAY_DICE - order.length;
+    const pending = (notation ? pendingThrows(notation, next) : []).filter(
+      (p) => p.reroll || room-- > 0,
+    );
+    if (pending.length) return setPendingWave(pending);
+    setRecording(recorder.finish());
+    setPhase("results");
+  }, [
+    phase,
+    waveSettled,
+    wave,
+    throws,
+    throwSels,
+    order,
+    values,
+    notation,
+    recorder,
+  ]);
+
+  /** Kinds of the dice the next wave throws, e.g. for a server request. */
+  const pendingKinds = useMemo(() => {
+    if (!pendingWave || !notation) return null;
+    const kinds = diceForRoll(notation);
+    return pendingWave.map((p) => kinds[p.die]);
+  }, [pendingWave, notation]);
+
+  /**
+   * Throws the wave the roll's rules asked for: rerolls throw the same die
+   * again, explosions add one. `results` and `seed` work as in `roll`.
+   */
+  const throwWave = useCallback(
+    (results?: number[], seed: number = createThrowSeed()) => {
+      if (!pendingWave || !pendingKinds) return;
+      const nextPlans = [...plans];
+      const nextOrder = [...order];
+      const nextDieSel = [...dieSel];
+      const count = pendingWave.reduce(
+        (n, { reroll }, i) => (reroll ? n : n + slotsFor(pendingKinds[i])),
+        0,
+      );
+      let spawned = 0;
+      const entries = pendingWave.map(({ die, reroll }, i) => {
+        if (reroll) return { sel: dieSel[die], die };
+        // New dice drop in from above the ones already lying in the tray
+        const { plans: added, selection } = plansForKind(
+          tray,
+          pendingKinds[i],
+          spawned,
+          3,
+          count,
+        );
+        spawned += added.length;
+        nextPlans.push(...added);
+        nextOrder.push(selection);
+        nextDieSel[die] = nextOrder.length - 1;
+        return { sel: nextOrder.length - 1, die };
+      });
+      setPlans(nextPlans);
+      setOrder(nextOrder);
+      setDieSel(nextDieSel);
+      setPendingWave(null);
+      launch(entries, nextOrder, results, seed);
+    },
+    [tray, pendingWave, pendingKinds, plans, order, dieSel, launch],
+  );
+
+  const startHold = useCallback(() => {
+    if (phase === "results") setPhase("hold");
+  }, [phase]);
+
+  const cancelHold = useCallback(() => {
+    if (phase === "hold") setPhase("results");
+  }, [phase]);
+
+  /** Plans of the rolled die `id` belongs to, explosions included. */
+  const dieOfPlan = useCallback(
+    (id: string) => {
+      const sel = order.findIndex((s) => selectionIds(s).includes(id));
+      return throwSels.findIndex((sels) => sels.includes(sel));
+    },
+    [order, throwSels],
+  );
+
+  /** Holds or releases the rolled die that `id` is part of. */
+  const toggleHold = useCallback(
+    (id: string) => {
+      if (phase !== "hold") return;
+      const die = dieOfPlan(id);
+      if (die < 0) return;
+      const ids = new Set(
+        throwSels[die].flatMap((sel) => selectionIds(order[sel])),
+      );
+      const held = !plans.find((p) => p.id === id)?.held;
+      setPlans((p) => p.map((pl) => (ids.has(pl.id) ? { ...pl, held } : pl)));
+    },
+    [phase, dieOfPlan, throwSels, order, plans],
+  );
+
+  // Rolled dice (in `diceForRoll` order) that a reroll would throw again
+  const unheld = useMemo(() => {
+    const held = new Set(plans.filter((p) => p.held).map((p) => p.id));
+    return throwSels.flatMap((sels, die) =>
+      sels.some((sel) => selectionIds(order[sel]).some((id) => held.has(id)))
+        ? []
+        : [die],
+    );
+  }, [plans, throwSels, order]);
+
+  /**
+   * Throws every die that isn't held again, as the next step of the roll.
+   * Each die starts over from its first throw, with its rules applying
+   * afresh; dice its earlier explosions added are taken away. `results`
+   * and `seed` work as in `roll`.
+   */
+  const rerollUnheld = useCallback(
+    (results?: number[], seed: number = createThrowSeed()) => {
+      if (phase !== "hold" || unheld.length === 0) return;
+      const again = new Set(unheld);
+      // Selections the dice thrown again added; the first one per die is
+      // its own, and every other one comes after those
+      const spawnedSels = new Set(
+        unheld.flatMap((die) => throwSels[die].filter((sel) => sel !== die)),
+      );
+      const spawned = new Set(
+        Array.from(spawnedSels).flatMap((sel) => selectionIds(order[sel])),
+      );
+      const nextOrder = order.filter((_, sel) => !spawnedSels.has(sel));
+      const moved = new Map(
+        order
+          .map((_, sel) => sel)
+          .filter((sel) => !spawnedSels.has(sel))
+          .map((sel, i) => [sel, i]),
+      );
+      const renumber = (sel: number) => moved.get(sel) ?? sel;
+      setPlans((p) => p.filter((pl) => !spawned.has(pl.id)));
+      setOrder(nextOrder);
+      setThrows((t) => t.map((x, die) => (again.has(die) ? [] : x)));
+      setThrowSels((t) =>
+        t.map((x, die) => (again.has(die) ? [] : x.map(renumber))),
+      );
+      setDieSel((d) =>
+        d.map((sel, die) => (again.has(die) ? die : renumber(sel))),
+      );
+      setStep((s) => s + 1);
+      setRethrown(unheld);
+      setCocked({});
+      setRecording(null);
+      recorder.begin();
+      setPhase("rolling");
+      launch(
+        unheld.map((die) => ({ sel: die, die })),
+        nextOrder,
+        results,
+        seed,
+      );
+    },
+    [phase, unheld, throwSels, order, recorder, launch],
+  );
+
+  const selectionKinds: DieKind[] = useMemo(
+    () => order.map(selectionKind),
+    [order],
+  );
+
+  const breakdown: RollResult | null = useMemo(() => {
+    if (!notation || (phase !== "results" && phase !== "hold")) return null;
+    return evaluateRoll(notation, throws);
+  }, [notation, phase, throws]);
+
+  const rolledDice: RolledDie[] = useMemo(() => {
+    // Rerolls and explosions only show up properly in the breakdown
+    if (breakdown && throws.some((t) => t.length > 1))
+      return breakdown.terms.flatMap((t) =>
+        t.rolls.map((r) => ({ kind: t.kind, value: r.value })),
+      );
+    return order.slice(0, throws.length).map((sel, i) =>
+      sel.type === "single"
+        ? { kind: selectionKinds[i], value: throws[i][0] }
+        : {
+            kind: "d100",
+            value: throws[i][0],
+            tens: values[sel.tensId],
+            units: values[sel.unitsId],
+          },
+    );
+  }, [breakdown, throws, order, selectionKinds, values]);
+
+  // Tray dice behind each of `rolledDice`, or each breakdown roll when
+  // there is one; a compounded roll owns every die of its chain
+  const rollIds: string[][] = useMemo(() => {
+    const idsOf = (sels: number[]) =>
+      Array.from(new Set(sels)).flatMap((sel) => selectionIds(order[sel]));
+    if (!breakdown) return throwSels.map(idsOf);
+    return breakdown.terms.flatMap((t) => {
+      const used = new Map<number, number>();
+      return t.rolls.map((r) => {
+        const sels = throwSels[t.first + r.die] ?? [];
+        if (r.parts) return idsOf(sels);
+        const at = (used.get(r.die) ?? 0) + (r.rerolled?.length ?? 0);
+        used.set(r.die, at + 1);
+        return idsOf(sels.slice(at, at + 1));
+      });
+    });
+  }, [breakdown, throwSels, order]);
+
+  /** Kinds of the dice `rerollUnheld` throws, e.g. for a server request. */
+  const rerollKinds = useMemo(() => {
+    const kinds = notation ? diceForRoll(notation) : selectionKinds;
+    return unheld.map((die) => kinds[die]);
+  }, [notation, selectionKinds, unheld]);
+
+  // Of `rolledDice`, the ones a hold kept from the step before
+  const heldDice: RolledDie[] = useMemo(() => {
+    const held = new Set(plans.filter((p) => p.held).map((p) => p.id));
+    return rolledDice.filter((_, i) => rollIds[i]?.some((id) => held.has(id)));
+  }, [plans, rolledDice, rollIds]);
 
   const total = useMemo(
-    () => resultsList.reduce((a, b) => a + b, 0),
-    [resultsList],
+    () =>
+      breakdown?.total ??
+      rolledDice.reduce((a, d) => a + (isNumericDie(d.kind) ? d.value : 0), 0),
+    [breakdown, rolledDice],
   );
 
+  const modifier = useMemo(() => {
+    if (!breakdown) return 0;
+    const kept = breakdown.terms.reduce((a, t) => a + t.subtotal, 0);
+    return breakdown.total - kept;
+  }, [breakdown]);
+
   return {
     plans,
-    key,
     addDie,
+    loadDice,
+    loadNotation,
+    notation,
+    breakdown,
     resetAll,
     roll,
+    pendingKinds,
+    throwWave,
     onTopValue,
-    rollToken,
+    cocked,
+    onCocked,
+    thrownAt,
+    throwSeed,
+    flick,
     phase,
-    resultsReady,
-    resultsList,
+    wave,
+    order,
+    selectionKinds,
+    rolledDice,
+    rollIds,
+    step,
+    rethrown,
+    startHold,
+    cancelHold,
+    toggleHold,
+    rerollUnheld,
+    rerollKinds,
+    heldDice,
+    targets,
     total,
+    modifier,
+    recorder,
+    recording,
   };
 }
 
-export default function DiceApp({ user }: { user: UserConfig }) {
+const secondaryButton: React.CSSProperties = {
+  padding: "8px 12px",
+  borderRadius: 8,
+  border: "1px solid #ccc",
+  background: "#fff",
+  cursor: "pointer",
+};
+
+const markStyle: Record<DieMark, React.CSSProperties> = {
+  success: { background: "#cfeed3", color: "#1b5e20", fontWeight: 700 },
+  critical: {
+    background: "#fff1c2",
+    color: "#8a5a00",
+    fontWeight: 700,
+    boxShadow: "inset 0 0 0 1px #e0b000",
+  },
+  failure: { background: "#fbe0e0", color: "#b00020" },
+  highest: { background: "#d7e8fb", color: "#1d4f91", fontWeight: 700 },
+};
+
+/**
+ * `marks` highlight rolls, one per roll in term order. Subtotals are left
+ * out when a reading, not the sum, gives the result.
+ */
+function RollBreakdown({
+  result,
+  marks,
+  subtotals = true,
+}: {
+  result: RollResult;
+  marks?: (DieMark | null)[] | null;
+  subtotals?: boolean;
+}) {
+  let at = 0;
+  return (
+    <div style={{ marginBottom: 14, fontSize: 15 }}>
+      {result.terms.map((term, ti) => (
+        <div key={ti} style={{ marginBottom: 4 }}>
+          <span style={{ fontFamily: "monospace", opacity: 0.7 }}>
+            {term.notation}:
+          </span>{" "}
+          {term.rolls.map((r, ri) => {
+            const mark = marks?.[at++];
+            return (
+              <React.Fragment key={ri}>
+                {/* An explosion continues the chain of the die before it */}
+                {r.exploded && (
+                  <span title="exploded" style={{ opacity: 0.6 }}>
+                    →
+                  </span>
+                )}
+                <span
+                  title={mark ?? (r.kept ? "kept" : "dropped")}
+                  style={{
+                    display: "inline-block",
+                    minWidth: 22,
+                    margin: "0 2px",
+                    padding: "1px 4px",
+                    borderRadius: 4,
+                    background: r.kept ? "#eef6ee" : "transparent",
+                    textDecoration: r.kept ? "none" : "line-through",
+                    opacity: r.kept ? 1 : 0.45,
+                    ...(mark && markStyle[mark]),
+                  }}
+                >
+                  {r.rerolled?.map((v, k) => (
+                    <s
+                      key={k}
+                      title="rerolled"
+                      style={{ opacity: 0.45, marginRight: 4 }}
+                    >
+                      {formatDieValue(term.kind, v)}
+                    </s>
+                  ))}
+                  {formatDieValue(term.kind, r.value)}
+                  {r.parts && (
+                    <span style={{ fontSize: 12, opacity: 0.6 }}>
+                      {" "}
+                      ({r.parts.join("+")})
+                    </span>
+                  )}
+                </span>
+              </React.Fragment>
+            );
+          })}{" "}
+          {isNumericDie(term.kind) && subtotals && (
+            <>
+              = <strong>{term.subtotal}</strong>
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function DiceApp({
+  user,
+  onRoomCodeChange,
+}: {
+  user: UserConfig;
+  onRoomCodeChange?: (code: string) => void;
+}) {
+  const room = useRoom(user);
+  // The room's tray, as its creator set it up
+  const { width: trayWidth, depth: trayDepth } = room.tray;
+  const tray = useMemo(
+    () => ({ width: trayWidth, depth: trayDepth }),
+    [trayWidth, trayDepth],
+  );
   const {
     plans,
-    key,
     addDie,
+    loadDice,
+    loadNotation,
+    notation,
+    breakdown,
     resetAll,
     roll,
+    pendingKinds,
+    throwWave,
     onTopValue,
-    rollToken,
+    cocked,
+    onCocked,
+    thrownAt,
+    throwSeed,
+    flick,
     phase,
-    resultsReady,
-    resultsList,
+    wave,
+    order,
+    selectionKinds,
+    rolledDice,
+    rollIds,
+    step,
+    rethrown,
+    startHold,
+    cancelHold,
+    toggleHold,
+    rerollUnheld,
+    rerollKinds,
+    heldDice,
+    targets,
     total,
-  } = useDiceTray();
+    modifier,
+    recorder,
+    recording,
+  } = useDiceTray(tray);
+  const [replay, setReplay] = useState<{
+    recording: ReplayRecording;
+    speed: number;
+    nonce: number;
+  } | null>(null);
+  const startReplay = useCallback(
+    (rec: ReplayRecording, speed = 1) =>
+      setReplay({ recording: rec, speed, nonce: Date.now() }),
+    [],
+  );
+  const history = useRollHistory();
+  // Re-renders the toolbar once saved or newly imported packs are registered
+  const dicePacks = useDicePacks();
+  const { merge: mergeHistory } = history;
+  const [notationText, setNotationText] = useState("");
+  const [notationError, setNotationError] = useState<string | null>(null);
+  const [readingChoice, setReadingChoice] = useState<ReadingChoice>({
+    preset: "sum",
+  });
+  const [check, setCheck] = useState<RollCheck>({ mode: "normal" });
+  const { shareRoll, fairCommit, requestRoll, kick, rotateCode } = room;
+  const [serverRolls, setServerRolls] = useState(false);
+  const [requesting, setRequesting] = useState(false);
+  const [rollError, setRollError] = useState<string | null>(null);
+  const rollIdRef = useRef<string | undefined>(undefined);
+  // Every server request behind the current roll, first one included
+  const wavesRef = useRef<RollWave[]>([]);
+  const [rollProviders, setRollProviders] = useState<string[] | null>(null);
+  const [fairStatus, setFairStatus] = useState<FairStatus | null>(null);
+  // One check per server request; a roll with extra waves makes several
+  const fairChecks = useRef<Promise<boolean>[]>([]);
+  // Fair rooms always roll on the server
+  const serverMode = (serverRolls || room.fair) && room.status === "joined";
+  // The room's rule once joined; until then, the one we'd create it with
+  const cockedRule =
+    room.status === "joined" ? room.cocked : user.room.cocked ?? "rethrow";
+
+  /** Server values for `kinds`, with commit-reveal in fair rooms. */
+  const serverRoll = useCallback(
+    async (kinds: DieKind[]) => {
+      let fairSeed: { commitId: string; clientSeed: string } | undefined;
+      let commitment = "";
+      if (room.fair) {
+        const commit = await fairCommit();
+        if ("error" in commit) return commit;
+        commitment = commit.commitment;
+        fairSeed = {
+          commitId: commit.commitId,
+          clientSeed: createClientSeed(),
+        };
+      }
+      const res = await requestRoll(kinds, fairSeed);
+      if ("error" in res) return res;
+      rollIdRef.current = rollIdRef.current ?? res.rollId;
+      wavesRef.current.push({
+        rollId: res.rollId,
+        dice: kinds.map((kind, i) => ({ kind, value: res.results[i] })),
+      });
+      setRollProviders((p) => [...(p ?? []), ...res.providers]);
+      if (res.reveal) {
+        const checks = [
+          ...fairChecks.current,
+          verifyFairRoll(res.reveal, commitment, kinds, res.results),
+        ];
+        fairChecks.current = checks;
+        setFairStatus("checking");
+        Promise.all(checks)
+          .then((oks) => {
+            if (fairChecks.current === checks)
+              setFairStatus(oks.every(Boolean) ? "verified" : "failed");
+          })
+          .catch(() => {
+            if (fairChecks.current === checks) setFairStatus("unavailable");
+          });
+      }
+      return res;
+    },
+    [room.fair, fairCommit, requestRoll],
+  );
+
+  // Set when the tray was just loaded for a roll; throws once it's there,
+  // the way the dice were flicked if they were
+  const autoRoll = useRef(false);
+  const autoFlick = useRef<Flick | undefined>(undefined);
+
+  // The notation a mode last loaded and the tray dice it laid out, so dice
+  // picked next to its d20 pair leave the pair's keep rule as it was
+  const modeLoad = useRef<{ node: RollNode; sels: Selection[] } | null>(null);
+  useEffect(() => {
+    if (notation && notation === modeLoad.current?.node)
+      modeLoad.current.sels = order;
+  }, [notation, order]);
+
+  /**
+   * Puts the tray's single d20s into `mode`, turning picked dice into
+   * notation if need be. False when there was nothing to change.
+   */
+  const applyMode = useCallback(
+    (mode: RollCheck["mode"]) => {
+      // Dice picked next to the mode's notation join it as they are
+      const made = modeLoad.current;
+      const added =
+        made?.sels.length && made.sels.every((sel, i) => order[i] === sel)
+          ? selectionKinds.slice(made.sels.length)
+          : [];
+      const joined: RollNode | null =
+        made && added.length
+          ? {
+              type: "binary",
+              op: "+",
+              left: made.node,
+              right: notationForDice(added),
+            }
+          : null;
+      const base =
+        notation ??
+        joined ??
+        (selectionKinds.includes("d20")
+          ? notationForDice(selectionKinds)
+          : null);
+      if (!base) return false;
+      const checked = applyCheckMode(base, mode);
+      const text = formatNotation(checked);
+      if (notation && text === formatNotation(notation)) return false;
+      if (!notation && !joined && mode === "normal") return false;
+      modeLoad.current = { node: checked, sels: [] };
+      loadNotation(checked);
+      setNotationText(text);
+      setNotationError(null);
+      return true;
+    },
+    [notation, order, selectionKinds, loadNotation],
+  );
+
+  const handleRoll = useCallback(
+    async (flick?: Flick) => {
+      // Dice picked since advantage was chosen get it now; the roll follows
+      // once the tray has them
+      if (check.mode !== "normal" && applyMode(check.mode)) {
+        autoRoll.current = true;
+        autoFlick.current = flick;
+        return;
+      }
+      setRollError(null);
+      rollIdRef.current = undefined;
+      wavesRef.current = [];
+      setRollProviders(null);
+      setFairStatus(null);
+      fairChecks.current = [];
+      if (!serverMode) return roll(undefined, undefined, flick);
+      setRequesting(true);
+      const res = await serverRoll(selectionKinds);
+      setRequesting(false);
+      if ("error" in res) return setRollError(res.error.message);
+      roll(res.results, undefined, flick);
+    },
+    [check.mode, applyMode, serverMode, roll, serverRoll, selectionKinds],
+  );
+
+  // Roll rules asked for more dice; the server rolls them too if it rolled
+  // the first wave. Should that fail, the roll finishes locally instead.
+  const requestedWave = useRef<DieKind[] | null>(null);
+  useEffect(() => {
+    if (requestedWave.current === pendingKinds) return;
+    requestedWave.current = pendingKinds;
+    if (!pendingKinds) return;
+    if (!rollIdRef.current) return throwWave();
+    void serverRoll(pendingKinds).then((res) => {
+      // Reset while the server was rolling
+      if (requestedWave.current !== pendingKinds) return;
+      if (!("error" in res)) return throwWave(res.results);
+      rollIdRef.current = undefined;
+      wavesRef.current = [];
+      fairChecks.current = [];
+      setFairStatus(null);
+      setRollError(`${res.error.message} The rest of the roll was local.`);
+      throwWave();
+    });
+  }, [pendingKinds, serverRoll, throwWave]);
+
+  // Id of the roll's first step, which later steps point back to
+  const firstStepId = useRef<string | undefined>(undefined);
+
+  /** Rethrows the dice that weren't held, on the server if it's rolling. */
+  const handleRerollUnheld = useCallback(async () => {
+    setRollError(null);
+    rollIdRef.current = undefined;
+    wavesRef.current = [];
+    setRollProviders(null);
+    setFairStatus(null);
+    fairChecks.current = [];
+    if (!serverMode) return rerollUnheld();
+    setRequesting(true);
+    const res = await serverRoll(rerollKinds);
+    setRequesting(false);
+    if ("error" in res) return setRollError(res.error.message);
+    rerollUnheld(res.results);
+  }, [serverMode, rerollUnheld, serverRoll, rerollKinds]);
+
+  const handleRotateCode = useCallback(async () => {
+    const res = await rotateCode();
+    if ("code" in res) onRoomCodeChange?.(res.code);
+  }, [rotateCode, onRoomCodeChange]);
   const tint = user?.color ?? "#ffffff";
 
+  // Every die the roll read, dropped and rerolled-into ones included, in
+  // the order RollBreakdown lists them
+  const readDice: ReadDie[] = useMemo(
+    () =>
+      breakdown
+        ? breakdown.terms.flatMap((t) =>
+            t.rolls.map((r) => ({
+              kind: t.kind,
+              value: r.value,
+              kept: r.kept,
+            })),
+          )
+        : rolledDice.map((d) => ({ kind: d.kind, value: d.value, kept: true })),
+    [breakdown, rolledDice],
+  );
+  const reading = useMemo(
+    () =>
+      phase === "results"
+        ? readRoll(resolveReading(readingChoice), readDice)
+        : null,
+    [phase, readingChoice, readDice],
+  );
+  const checkResult = useMemo(
+    () =>
+      phase === "results"
+        ? readCheck(check, reading?.value ?? total, readDice)
+        : null,
+    [phase, check, reading, total, readDice],
+  );
+  // Natural 1s and 20s win over what the reading made of a die
+  const marks = useMemo(
+    () =>
+      checkResult &&
+      readDice.map((_, i) => checkResult.marks[i] ?? reading?.marks[i] ?? null),
+    [checkResult, reading, readDice],
+  );
+  const highlights = useMemo(() => {
+    const out: Record<string, DieHighlight> = {};
+    rollIds.forEach((ids, i) => {
+      const h: DieHighlight | undefined = !readDice[i]?.kept
+        ? "dropped"
+        : checkResult?.marks[i] === "critical"
+        ? "critical"
+        : checkResult?.marks[i] === "failure"
+        ? "fumble"
+        : undefined;
+      if (h) for (const id of ids) out[id] = h;
+    });
+    return out;
+  }, [rollIds, readDice, checkResult]);
+
+  // Broadcast once, on the rolling → results transition
+  const prevPhase = useRef<Phase>(phase);
+  useEffect(() => {
+    const prev = prevPhase.current;
+    prevPhase.current = phase;
+    if (prev !== "rolling" || phase !== "results") return;
+    const rollId = rollIdRef.current;
+    const waves = wavesRef.current;
+    const checkText = checkResult ? describeCheck(check, checkResult) : [];
+    const id = rollId ?? crypto.randomUUID();
+    if (step === 1) firstStepId.current = id;
+    // Held dice came from no request, so later steps always list the waves
+    const listWaves = step > 1 ? waves.length > 0 : waves.length > 1;
+    const share = {
+      id,
+      rollId,
+      waves: listWaves ? waves : undefined,
+      notation: notation ? formatNotation(notation) : undefined,
+      dice: rolledDice,
+      modifier,
+      total,
+      outcome: checkText.length
+        ? [reading ? describeReading(reading) : total, ...checkText].join(" · ")
+        : reading
+        ? describeReading(reading)
+        : undefined,
+      reading: reading ? readingChoice : undefined,
+      check:
+        check.mode !== "normal" || check.dc !== undefined ? check : undefined,
+      step:
+        step > 1
+          ? {
+              of: firstStepId.current ?? id,
+              number: step,
+              held: heldDice,
+              rethrown,
+            }
+          : undefined,
+    };
+    shareRoll({ ...share, replay: recording ?? undefined });
+    mergeHistory([
+      {
+        ...share,
+        by: user.name,
+        color: user.color,
+        at: Date.now(),
+        authoritative: !!rollId,
+        providers: rollProviders ?? undefined,
+        room: user.room.id,
+        session: SESSION_ID,
+      },
+    ]);
+  }, [
+    phase,
+    notation,
+    rolledDice,
+    modifier,
+    total,
+    reading,
+    readingChoice,
+    checkResult,
+    check,
+    step,
+    rethrown,
+    heldDice,
+    shareRoll,
+    mergeHistory,
+    user,
+    rollProviders,
+    recording,
+  ]);
+
+  // Rolls from other members, live or from before we joined; the earlier
+  // ones belong to no session of this page
+  useEffect(() => {
+    // Replays are too large for localStorage; they live in the feed only
+    const tag =
+      (session: string) =>
+      ({ replay, ...r }: HistoryEntry) => ({
+        ...r,
+        room: user.room.id,
+        session,
+      });
+    mergeHistory([
+      ...room.feed.map(tag(SESSION_ID)),
+      ...room.history.map(tag(ROOM_SESSION)),
+    ]);
+  }, [room.feed, room.history, mergeHistory, user.room.id]);
+
+  // Re-roll from history: load the set, then throw once it's in the tray
+  const handleReroll = useCallback(
+    (entry: HistoryEntry) => {
+      setReadingChoice(entry.reading ?? { preset: "sum" });
+      setCheck(entry.check ?? { mode: "normal" });
+      if (entry.notation) {
+        try {
+          loadNotation(parseNotation(entry.notation));
+          setNotationText(entry.notation);
+          autoRoll.current = true;
+          return;
+        } catch (err) {
+          if (!(err instanceof NotationError)) throw err;
+        }
+      }
+      loadDice(entry.dice.map((d) => d.kind));
+      autoRoll.current = true;
+    },
+    [loadNotation, loadDice],
+  );
+  useEffect(() => {
+    if (!autoRoll.current || phase !== "select" || plans.length === 0) return;
+    autoRoll.current = false;
+    const flick = autoFlick.current;
+    autoFlick.current = undefined;
+    void handleRoll(flick);
+  }, [phase, plans, handleRoll]);
+
+  // Dice laid out before the room's tray was known are laid out again in it
+  const laidOutFor = useRef(tray);
+  useEffect(() => {
+    if (laidOutFor.current === tray) return;
+    laidOutFor.current = tray;
+    if (phase === "select" && plans.length > 0)
+      loadDice(selectionKinds, notation);
+  }, [tray, phase, plans.length, loadDice, selectionKinds, notation]);
+
+  const submitNotation = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      loadNotation(parseNotation(notationText));
+      setNotationError(null);
+    } catch (err) {
+      if (!(err instanceof NotationError)) throw err;
+      setNotationError(err.message);
+    }
+  };
+
+  // Dice from earlier waves keep the value they were read with
+  const waveIds = useMemo(
+    () => new Set(wave.flatMap((e) => selectionIds(order[e.sel]))),
+    [wave, order],
+  );
+
   const canAdd = phase === "select";
-  const canRoll = phase === "select" && plans.length > 0;
+  const canRoll = phase === "select" && plans.length > 0 && !requesting;
+
+  // Dice waiting to be rolled can also be picked up and flicked
+  const canFlick = canRoll && !replay;
+  const hand = useRef<[number, number] | null>(null);
+  const [carrying, setCarrying] = useState(false);
+  const carry = useMemo(() => {
+    const offsets = carryOffsets(plans.length);
+    return {
+      limit: handLimit(tray, offsets),
+      dice: Object.fromEntries(
+        plans.map((p, i): [string, DieCarry] => [
+          p.id,
+          { hand, offset: offsets[i] },
+        ]),
+      ),
+    };
+  }, [plans, tray]);
+  const grab = useCallback(
+    (_id: string, at: THREE.Vector3) => {
+      hand.current = clampHand(at.x, at.z, carry.limit);
+      setCarrying(true);
+    },
+    [carry.limit],
+  );
+  const release = useCallback(
+    (flick: Flick) => {
+      setCarrying(false);
+      hand.current = null;
+      void handleRoll(flick);
+    },
+    [handleRoll],
+  );
+  useEffect(() => {
+    if (!canFlick) setCarrying(false);
+  }, [canFlick]);
+  const carried = carrying && canFlick;
   const canReset = phase !== "select";
 
-  const modalMessage = `${user?.name ?? "Player"} rolled ${resultsList.join(
-    " + ",
-  )} = ${total}`;
+  // Pools of only symbol dice have no total worth showing
+  const totalText = rolledDice.some((d) => isNumericDie(d.kind))
+    ? ` = ${total}`
+    : "";
+  const resultText = reading ? `: ${reading.headline}` : totalText;
+  const modalMessage = notation
+    ? `${user?.name ?? "Player"} rolled ${formatNotation(
+        notation,
+      )}${resultText}`
+    : `${user?.name ?? "Player"} rolled ${formatDiceValues(
+        rolledDice,
+      )}${resultText}`;
+  const symbolResult = describeSymbolResult(rolledDice);
+  const cockedCount = Object.keys(cocked).length;
+  // Criticals, glitches and natural 1s/20s, and dice that landed cocked
+  const resultNotes = [
+    ...(reading?.notes ?? []),
+    ...(checkResult?.notes ?? []),
+    ...(cockedCount
+      ? [
+          `${cockedCount} cocked ${cockedCount === 1 ? "die" : "dice"} ${
+            cockedRule === "nudge" ? "nudged" : "thrown again"
+          }`,
+        ]
+      : []),
+  ];
 
   return (
     <div style={{ width: "100vw", height: "100vh", position: "relative" }}>
@@ -215,29 +1380,103 @@ export default function DiceApp({ user }: { user: UserConfig }) {
           borderRadius: 8,
         }}
       >
-        {[D4, D6, D8, D10, D12, D20, { ...D10, kind: "d100" as DieKind }].map(
-          (spec) => (
-            <button
-              key={spec.kind}
-              onClick={() => addDie(spec)}
-              disabled={!canAdd}
-              style={{
-                fontSize: 16,
-                padding: "6px 10px",
-                borderRadius: 6,
-                border: "1px solid rgba(0,0,0,0.15)",
-                background: canAdd ? "#fff" : "#f1f1f1",
-                color: canAdd ? "#111" : "#888",
-                cursor: canAdd ? "pointer" : "not-allowed",
-              }}
-            >
-              {spec.kind.toUpperCase()}
-            </button>
-          ),
+        {dieTypes().map(({ kind }) => (
+          <button
+            key={kind}
+            onClick={() => addDie(kind)}
+            disabled={!canAdd}
+            style={{
+              fontSize: 16,
+              padding: "6px 10px",
+              borderRadius: 6,
+              border: "1px solid rgba(0,0,0,0.15)",
+              background: canAdd ? "#fff" : "#f1f1f1",
+              color: canAdd ? "#111" : "#888",
+              cursor: canAdd ? "pointer" : "not-allowed",
+            }}
+          >
+            {kind.toUpperCase()}
+          </button>
+        ))}
+        <DicePackImport onImport={dicePacks.importPack} disabled={!canAdd} />
+        <MeshDieImport onAdd={dicePacks.addDie} disabled={!canAdd} />
+        <ReadingPicker
+          choice={readingChoice}
+          onChange={setReadingChoice}
+          disabled={!canAdd}
+        />
+        <CheckPicker
+          check={check}
+          onChange={(next) => {
+            setCheck(next);
+            if (next.mode !== check.mode) applyMode(next.mode);
+          }}
+          disabled={!canAdd}
+        />
+        <form
+          onSubmit={submitNotation}
+          style={{ display: "flex", gap: 6, alignItems: "center" }}
+        >
+          <input
+            value={notationText}
+            onChange={(e) => setNotationText(e.currentTarget.value)}
+            placeholder="4d6kh3+2"
+            title="e.g. 4d6kh3+2; ! explodes, !! compounds, r rerolls (ro once), with optional >=N, <N or N"
+            disabled={!canAdd}
+            aria-label="Dice notation"
+            aria-invalid={!!notationError}
+            style={{
+              width: 120,
+              fontSize: 15,
+              padding: "6px 8px",
+              borderRadius: 6,
+              border: notationError
+                ? "1px solid #b00020"
+                : "1px solid rgba(0,0,0,0.15)",
+              fontFamily: "monospace",
+            }}
+          />
+          <button
+            type="submit"
+            disabled={!canAdd}
+            style={{
+              fontSize: 16,
+              padding: "6px 10px",
+              borderRadius: 6,
+              border: "1px solid rgba(0,0,0,0.15)",
+              background: canAdd ? "#fff" : "#f1f1f1",
+              color: canAdd ? "#111" : "#888",
+              cursor: canAdd ? "pointer" : "not-allowed",
+            }}
+          >
+            Set
+          </button>
+        </form>
+        {notationError && (
+          <span style={{ fontSize: 12, color: "#b00020" }}>
+            {notationError}
+          </span>
         )}
         <div style={{ width: 12 }} />
+        <label
+          style={{
+            fontSize: 13,
+            display: "flex",
+            alignItems: "center",
+            gap: 4,
+          }}
+          title="Let the server pick the results; dice land on them"
+        >
+          <input
+            type="checkbox"
+            checked={serverRolls || room.fair}
+            onChange={(e) => setServerRolls(e.currentTarget.checked)}
+            disabled={!canAdd || room.status !== "joined" || room.fair}
+          />
+          Server rolls
+        </label>
         <button
-          onClick={roll}
+          onClick={() => void handleRoll()}
           disabled={!canRoll}
           style={{
             fontSize: 16,
@@ -267,13 +1506,95 @@ export default function DiceApp({ user }: { user: UserConfig }) {
           Reset
         </button>
         <span style={{ marginLeft: 12, fontSize: 12, opacity: 0.65 }}>
+          {rollError && (
+            <span style={{ color: "#b00020" }}>{rollError} · </span>
+          )}
           {phase === "select" && "1) Choose dice → 2) Roll"}
           {phase === "rolling" && "Rolling…"}
           {phase === "results" && "3) Modal shows result → 4) Reset"}
+          {phase === "hold" && "Click dice to hold them, then reroll the rest"}
         </span>
       </div>
 
-      {resultsReady && phase === "results" && (
+      <RoomPanel
+        status={room.status}
+        error={room.error}
+        members={room.members}
+        selfId={room.selfId}
+        isOwner={room.isOwner}
+        onKick={kick}
+        onRotateCode={handleRotateCode}
+      />
+      <RollFeed
+        feed={room.feed}
+        commitments={room.commitments}
+        onReplay={(roll) => roll.replay && startReplay(roll.replay)}
+      />
+      <HistoryPanel
+        entries={history.entries}
+        onReroll={handleReroll}
+        canReroll={phase !== "rolling" && !requesting}
+        onImport={mergeHistory}
+      />
+
+      {replay && (
+        <div
+          style={{
+            position: "absolute",
+            zIndex: 4,
+            top: 64,
+            left: "50%",
+            transform: "translateX(-50%)",
+            display: "flex",
+            gap: 8,
+            alignItems: "center",
+            background: "rgba(255,255,255,0.9)",
+            padding: "6px 10px",
+            borderRadius: 8,
+            fontSize: 14,
+          }}
+        >
+          Replaying{replay.speed !== 1 && ` at ×${replay.speed}`}…
+          <button onClick={() => setReplay(null)} style={secondaryButton}>
+            Stop
+          </button>
+        </div>
+      )}
+
+      {phase === "hold" && (
+        <div
+          style={{
+            position: "absolute",
+            zIndex: 4,
+            top: 64,
+            left: "50%",
+            transform: "translateX(-50%)",
+            display: "flex",
+            gap: 8,
+            alignItems: "center",
+            background: "rgba(255,255,255,0.9)",
+            padding: "6px 10px",
+            borderRadius: 8,
+            fontSize: 14,
+          }}
+        >
+          Click dice to hold them
+          {heldDice.length > 0 && ` (${heldDice.length} held)`}
+          <button
+            onClick={() => void handleRerollUnheld()}
+            disabled={rerollKinds.length === 0 || requesting}
+            style={secondaryButton}
+          >
+            Reroll {rerollKinds.length}{" "}
+            {rerollKinds.length === 1 ? "die" : "dice"}
+          </button>
+          <button onClick={cancelHold} style={secondaryButton}>
+            Back
+          </button>
+        </div>
+      )}
+
+      {phase === "results" && !replay && (
         <div
           role="dialog"
           aria-label="Roll results"
@@ -298,21 +1619,111 @@ export default function DiceApp({ user }: { user: UserConfig }) {
             }}
           >
             <div style={{ fontSize: 18, opacity: 0.8, marginBottom: 8 }}>
-              Result
+              Result{step > 1 && ` · reroll ${step - 1}`}
             </div>
             <div style={{ fontSize: 22, fontWeight: 700, marginBottom: 14 }}>
               {modalMessage}
             </div>
+            {symbolResult && (
+              <div style={{ fontSize: 16, marginBottom: 14 }}>
+                {symbolResult}
+              </div>
+            )}
+            {checkResult?.success !== undefined && (
+              <div
+                style={{
+                  fontSize: 20,
+                  fontWeight: 700,
+                  marginBottom: 10,
+                  color: checkResult.success ? "#1b5e20" : "#b00020",
+                }}
+              >
+                {checkResult.success ? "Success" : "Failure"} vs DC {check.dc}
+              </div>
+            )}
+            {resultNotes.length > 0 && (
+              <div style={{ fontSize: 16, fontWeight: 700, marginBottom: 14 }}>
+                {resultNotes.map((note, i) => (
+                  <span
+                    key={note}
+                    style={{
+                      color: /glitch|botch|natural 1$/i.test(note)
+                        ? "#b00020"
+                        : "#8a5a00",
+                    }}
+                  >
+                    {i > 0 && " · "}
+                    {note}
+                  </span>
+                ))}
+              </div>
+            )}
+            {breakdown ? (
+              <RollBreakdown
+                result={breakdown}
+                marks={marks}
+                subtotals={!reading}
+              />
+            ) : (
+              marks?.some(Boolean) && (
+                <div style={{ marginBottom: 14, fontSize: 15 }}>
+                  {rolledDice.map((d, i) => {
+                    const mark = marks[i];
+                    return (
+                      <span
+                        key={i}
+                        title={mark ?? undefined}
+                        style={{
+                          display: "inline-block",
+                          minWidth: 22,
+                          margin: "0 2px",
+                          padding: "1px 4px",
+                          borderRadius: 4,
+                          background: "#f1f1f1",
+                          ...(mark && markStyle[mark]),
+                        }}
+                      >
+                        {formatDieValue(d.kind, d.value)}
+                      </span>
+                    );
+                  })}
+                </div>
+              )
+            )}
+            {fairStatus && (
+              <div style={{ marginBottom: 10 }}>
+                <FairBadge status={fairStatus} />
+              </div>
+            )}
+            {rollProviders && (
+              <div style={{ fontSize: 12, opacity: 0.65, marginBottom: 12 }}>
+                Rolled by {describeProviders(rollProviders)}
+              </div>
+            )}
+            {recording && (
+              <>
+                <button
+                  onClick={() => startReplay(recording)}
+                  style={{ ...secondaryButton, marginRight: 8 }}
+                >
+                  Replay
+                </button>
+                <button
+                  onClick={() => startReplay(recording, 0.25)}
+                  style={{ ...secondaryButton, marginRight: 8 }}
+                >
+                  Slow motion
+                </button>
+              </>
+            )}
             <button
-              onClick={resetAll}
-              style={{
-                padding: "8px 12px",
-                borderRadius: 8,
-                border: "1px solid #ccc",
-                background: "#fff",
-                cursor: "pointer",
-              }}
+              onClick={startHold}
+              title="Keep some dice and throw the others again"
+              style={{ ...secondaryButton, marginRight: 8 }}
             >
+              Hold &amp; reroll
+            </button>
+            <button onClick={resetAll} style={secondaryButton}>
               Reset
             </button>
           </div>
@@ -321,10 +1732,13 @@ export default function DiceApp({ user }: { user: UserConfig }) {
 
       <Canvas
         orthographic
-        camera={{ position: [0, 26, 0], zoom: 70 }}
-        style={{ background: "#00FF00" }}
+        camera={{ position: [0, 26, 0] }}
+        style={{ background: "#00FF00", touchAction: "none" }}
       >
-        <TopDownCamera />
+        <TopDownCamera tray={tray} />
+        {carried && (
+          <FlickHand hand={hand} limit={carry.limit} onRelease={release} />
+        )}
         <ambientLight intensity={0.55} />
         <directionalLight position={[10, 22, 8]} intensity={1.2} />
         <Physics
@@ -332,21 +1746,39 @@ export default function DiceApp({ user }: { user: UserConfig }) {
           broadphase="SAP"
           defaultContactMaterial={{ friction: 0.4, restitution: 0.05 }}
           allowSleep={false}
-          key={key}
         >
-          <FloorDynamic />
-          <WallsDynamic />
-          {plans.map((plan) => (
+          <FloorDynamic tray={tray} />
+          <WallsDynamic key={`${tray.width}x${tray.depth}`} tray={tray} />
+          {plans.map((plan, i) => (
             <Die
               key={plan.id}
               plan={plan}
               onTopValue={onTopValue}
               tintColor={tint}
-              rollToken={rollToken}
-              acceptUpdates={phase !== "results"}
+              rollToken={thrownAt[plan.id] ?? 0}
+              throwSeed={dieThrowSeed(throwSeed, thrownAt[plan.id] ?? 0, i)}
+              targetValue={targets[plan.id]}
+              acceptUpdates={phase === "select" || waveIds.has(plan.id)}
+              recorder={recorder}
+              hidden={!!replay}
+              highlight={highlights[plan.id]}
+              onPick={phase === "hold" ? toggleHold : undefined}
+              cockedRule={cockedRule}
+              onCocked={onCocked}
+              onGrab={canFlick ? grab : undefined}
+              carry={carried ? carry.dice[plan.id] : undefined}
+              flick={flick}
             />
           ))}
         </Physics>
+        {replay && (
+          <ReplayDice
+            key={replay.nonce}
+            recording={replay.recording}
+            speed={replay.speed}
+            onDone={() => setReplay(null)}
+          />
+        )}
       </Canvas>
     </div>
   );
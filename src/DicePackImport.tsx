@@ -0,0 +1,70 @@
+import React, { useRef, useState } from "react";
+import { DicePackError } from "./dice-packs";
+import type { DieType } from "./die-types";
+
+/** Toolbar button that reads a JSON/YAML dice pack from disk. */
+export function DicePackImport({
+  onImport,
+  disabled,
+}: {
+  onImport: (text: string) => { name: string; dice: DieType[] };
+  disabled?: boolean;
+}) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<{ text: string; error?: boolean }>();
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.currentTarget.files?.[0];
+    e.currentTarget.value = "";
+    if (!file) return;
+    try {
+      const pack = onImport(await file.text());
+      setMessage({
+        text: `Added ${pack.dice.map((d) => d.kind).join(", ")} from ${
+          pack.name
+        }.`,
+      });
+    } catch (err) {
+      if (!(err instanceof DicePackError)) throw err;
+      setMessage({ text: err.message, error: true });
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => fileRef.current?.click()}
+        disabled={disabled}
+        title="Add homebrew dice from a JSON or YAML dice pack"
+        style={{
+          fontSize: 13,
+          padding: "6px 8px",
+          borderRadius: 6,
+          border: "1px dashed rgba(0,0,0,0.3)",
+          background: "#fff",
+          cursor: disabled ? "not-allowed" : "pointer",
+        }}
+      >
+        + Dice pack…
+      </button>
+      <input
+        ref={fileRef}
+        type="file"
+        accept=".json,.yaml,.yml,application/json,application/yaml"
+        onChange={handleFile}
+        style={{ display: "none" }}
+      />
+      {message && (
+        <span
+          style={{
+            fontSize: 12,
+            maxWidth: 260,
+            color: message.error ? "#b00020" : "#1b5e20",
+          }}
+        >
+          {message.text}
+        </span>
+      )}
+    </>
+  );
+}
@@ -1,52 +1,152 @@
-import React, { useEffect, useMemo, useRef } from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import { useConvexPolyhedron } from "@react-three/cannon";
+import { useFrame, type ThreeEvent } from "@react-three/fiber";
 import * as THREE from "three";
-import { randomThrowAngular, randomThrowVelocity } from "./physics";
-import type { DieSpec } from "./die-types";
-import { geometryToConvexArgs, getIndexArray, buildFaceGroups } from "./convex";
+import { generateNudge, generateThrow, seededRng, type Flick } from "./physics";
+import type { DieSpec, FaceLabel } from "./die-types";
+import { geometryToConvexArgs, type FaceGroup } from "./convex";
 import { FaceNumbers } from "./FaceNumbers";
+import {
+  COCKED_MS,
+  createCockedCheck,
+  createFaceReader,
+  createSettleWatch,
+  dieModel,
+} from "./die-model";
+import type { ReplayRecorder, ThrowRecord, Triplet } from "./replay";
+import type { CockedRule } from "./types";
+import { CARRY_HEIGHT } from "./tray";
+
+/** How a settled die stands out: kept out of the total, or a natural crit. */
+export type DieHighlight = "dropped" | "critical" | "fumble" | "cocked";
+
+/**
+ * A die picked up for a flick follows the hand across the tray, at
+ * `offset` (x, z) from it in the handful.
+ */
+export type DieCarry = {
+  hand: React.MutableRefObject<[number, number] | null>;
+  offset: [number, number];
+};
+
+/** After this many tries, a die that keeps landing cocked reads as it lies. */
+const MAX_COCKED_TRIES = 3;
 
 export type DiePlan = {
   id: string;
   spec: DieSpec;
   position: [number, number, number];
   asD100?: { groupId: string; role: "tens" | "units" };
+  /** Locked by the player: keeps its value and pose while the rest rethrow. */
+  held?: boolean;
 };
 
+/** Scaled geometry and face groups for a spec, shared by live and replayed dice. */
+export function useDieModel(spec: DieSpec) {
+  return useMemo(() => dieModel(spec), [spec]);
+}
+
+/**
+ * Labels for each face, given `faceMap` (see `Die`). Its slots are faces,
+ * or corners for vertex-read dice, which carry one label per corner.
+ */
+export function useFaceLabels(
+  spec: DieSpec,
+  corners: THREE.Vector3[],
+  faceMap: number[] | undefined,
+) {
+  return useCallback(
+    (g: FaceGroup, all: FaceGroup[]): FaceLabel[] => {
+      const valueForCorner = spec.valueForCorner;
+      if (!valueForCorner) {
+        const i = all.indexOf(g);
+        const shown = all[faceMap?.[i] ?? i];
+        return spec.symbolsForGroup
+          ? [{ text: "", symbols: spec.symbolsForGroup(shown, all) }]
+          : [{ text: spec.labelForGroup(shown, all) }];
+      }
+      return corners.flatMap((c, ci) =>
+        Math.abs(c.clone().sub(g.center).dot(g.normal)) < 1e-3
+          ? [
+              {
+                text: String(
+                  valueForCorner(corners[faceMap?.[ci] ?? ci], corners),
+                ),
+                toward: c,
+              },
+            ]
+          : [],
+      );
+    },
+    [spec, corners, faceMap],
+  );
+}
+
 export function Die({
   plan,
   onTopValue,
   tintColor,
   rollToken,
+  throwSeed,
   acceptUpdates,
+  targetValue,
+  recorder,
+  hidden = false,
+  highlight,
+  onPick,
+  cockedRule = "rethrow",
+  onCocked,
+  onGrab,
+  carry,
+  flick,
 }: {
   plan: DiePlan;
   onTopValue: (id: string, value: number) => void;
   tintColor?: string;
   rollToken: number;
+  /** Seeds this die's throw; the same seed gives the same launch. */
+  throwSeed: number;
   acceptUpdates: boolean;
+  /** Value the die must show once settled (server-authoritative rolls). */
+  targetValue?: number;
+  recorder?: ReplayRecorder;
+  /** Keeps simulating but isn't drawn, e.g. while a replay is on screen. */
+  hidden?: boolean;
+  highlight?: DieHighlight;
+  /** Makes the die clickable, e.g. to hold it. */
+  onPick?: (id: string) => void;
+  /** What happens to a thrown die that comes to rest cocked. */
+  cockedRule?: CockedRule;
+  /** Called each time the die is nudged or thrown again for landing cocked. */
+  onCocked?: (id: string) => void;
+  /** Lets the die be picked up, with where on it the pointer went down. */
+  onGrab?: (id: string, at: THREE.Vector3) => void;
+  /** Set while the die is carried in the hand. */
+  carry?: DieCarry;
+  /** Aims the throw when the dice were flicked rather than rolled. */
+  flick?: Flick;
 }) {
-  const baseGeom = useMemo(() => plan.spec.makeGeometry(), [plan.spec]);
-
-  const scaledGeom = useMemo(() => {
-    const g = baseGeom.clone();
-    const s = plan.spec.scale ?? 1;
-    if (s !== 1) g.scale(s, s, s);
-
-    g.computeBoundingSphere();
-    return g;
-  }, [baseGeom, plan.spec.scale]);
-
+  const { scaledGeom, groups, corners } = useDieModel(plan.spec);
   const convex = useMemo(() => geometryToConvexArgs(scaledGeom), [scaledGeom]);
+  const byCorner = plan.spec.readMode === "vertex";
 
-  const { groups, triToGroup } = useMemo(
-    () =>
-      plan.spec.groupsBuilder
-        ? plan.spec.groupsBuilder(scaledGeom)
-        : buildFaceGroups(scaledGeom),
-    [scaledGeom, plan.spec],
+  // faceMap[s] is the slot (face, or corner for vertex-read dice) whose
+  // label/value slot s shows. It starts as the identity and is permuted on
+  // landing to put `targetValue` on top.
+  const [faceMap, setFaceMap] = useState<number[]>([]);
+  useEffect(
+    () => setFaceMap((byCorner ? corners : groups).map((_, i) => i)),
+    [groups, corners, byCorner, rollToken],
   );
 
+  const labelsForGroup = useFaceLabels(plan.spec, corners, faceMap);
+
   const mat = useMemo(
     () =>
       new THREE.MeshStandardMaterial({
@@ -58,6 +158,36 @@ export function Die({
     [tintColor, plan.spec.color],
   );
 
+  const [cocked, setCocked] = useState(false);
+  const shown = cocked ? "cocked" : highlight;
+
+  // Dropped dice fade out; crits pulse, gold for a 20 and red for a 1;
+  // cocked dice flash orange until they're set straight
+  useEffect(() => {
+    mat.transparent = shown === "dropped";
+    mat.opacity = shown === "dropped" ? 0.35 : 1;
+    mat.emissive.set(
+      shown === "fumble"
+        ? "#ff1a1a"
+        : shown === "cocked"
+        ? "#ff7a00"
+        : "#ffc21a",
+    );
+    mat.emissiveIntensity = 0;
+    mat.needsUpdate = true;
+  }, [mat, shown]);
+  useFrame(({ clock }) => {
+    if (shown !== "critical" && shown !== "fumble" && shown !== "cocked")
+      return;
+    const t = clock.getElapsedTime();
+    mat.emissiveIntensity =
+      shown === "critical"
+        ? 0.45 + 0.35 * Math.sin(t * 6)
+        : shown === "cocked"
+        ? 0.6 * Math.max(0, Math.sin(t * 9))
+        : 0.5 * Math.max(0, Math.sin(t * 2.5)) ** 4;
+  });
+
   const [ref, api] = useConvexPolyhedron<THREE.Mesh>(() => ({
     mass: 1,
     position: plan.position,
@@ -71,107 +201,201 @@ export function Die({
     api.angularVelocity.set(0, 0, 0);
   }, [api]);
 
+  // The cursor would outlive hold mode or pickup if the die was hovered
+  const cursor = onPick ? "pointer" : onGrab ? "grab" : null;
+  useEffect(() => {
+    if (!cursor) document.body.style.cursor = "";
+  }, [cursor]);
+
+  // Without mass a held die can't be knocked off its face by the others,
+  // and a carried one goes wherever the hand takes it
+  const weightless = !!plan.held || !!carry;
+  useEffect(() => {
+    api.mass.set(weightless ? 0 : 1);
+    if (!weightless) return;
+    api.velocity.set(0, 0, 0);
+    api.angularVelocity.set(0, 0, 0);
+  }, [api, weightless]);
+  useFrame(() => {
+    const hand = carry?.hand.current;
+    if (!carry || !hand) return;
+    const [x, z] = carry.offset;
+    api.position.set(hand[0] + x, CARRY_HEIGHT, hand[1] + z);
+  });
+
+  /** Launches the die from where it lies; returns the follow-up kicks' timers. */
+  const launch = useCallback(
+    (record: ThrowRecord) => {
+      recorder?.throwStarted(plan.id, plan.spec.kind, record, tintColor);
+      const { velocity: v, angular: w } = record;
+      api.velocity.set(v[0], v[1], v[2]);
+      api.angularVelocity.set(w[0], w[1], w[2]);
+      return record.impulses.map(({ at, impulse, point }) =>
+        setTimeout(() => api.applyImpulse(impulse, point), at),
+      );
+    },
+    [api, recorder, plan.id, plan.spec.kind, tintColor],
+  );
+
+  // Only a new rollToken throws; the rest is read at throw time
+  const throwWith = useRef({ launch, throwSeed, flick });
+  throwWith.current = { launch, throwSeed, flick };
   useEffect(() => {
     if (!rollToken) return;
-    const v = randomThrowVelocity();
-    const w = randomThrowAngular();
-    api.velocity.set(v[0], v[1], v[2]);
-    api.angularVelocity.set(w[0], w[1], w[2]);
-
-    for (let i = 0; i < 3; i++) {
-      setTimeout(() => {
-        api.applyImpulse(
-          [0, 1.2 + Math.random() * 0.5, 0],
-          [Math.random() * 0.15, 0, Math.random() * 0.15],
-        );
-      }, 50 + i * 55);
-    }
-  }, [api, rollToken]);
-
-  const velRef = useRef<[number, number, number]>([0, 0, 0]);
-  const lastGroup = useRef<number | null>(null);
-  const stableCount = useRef(0);
+    const { launch, throwSeed, flick } = throwWith.current;
+    const timers = launch(generateThrow(seededRng(throwSeed), flick));
+    return () => timers.forEach(clearTimeout);
+  }, [rollToken]);
+
+  const posRef = useRef<Triplet>([0, 0, 0]);
+  const quatRef = useRef<[number, number, number, number]>([0, 0, 0, 1]);
+  useEffect(
+    () => api.position.subscribe((p) => (posRef.current = p)),
+    [api.position],
+  );
+  useEffect(
+    () => api.quaternion.subscribe((q) => (quatRef.current = q)),
+    [api.quaternion],
+  );
+  useFrame(() => {
+    if (!recorder?.active) return;
+    // Held dice sit the step out; replays still show them where they lie
+    if (plan.held) recorder.holdStill(plan.id, plan.spec.kind, tintColor);
+    recorder.sample(plan.id, posRef.current, quatRef.current);
+  });
 
+  const velRef = useRef<Triplet>([0, 0, 0]);
+  const spinRef = useRef<Triplet>([0, 0, 0]);
   useEffect(
     () => api.velocity.subscribe((v) => (velRef.current = v)),
     [api.velocity],
   );
+  useEffect(
+    () => api.angularVelocity.subscribe((w) => (spinRef.current = w)),
+    [api.angularVelocity],
+  );
 
-  useEffect(() => {
-    const posAttr = scaledGeom.getAttribute(
-      "position",
-    ) as THREE.BufferAttribute;
-    const idxArr = getIndexArray(scaledGeom);
-    const triCount = Math.floor(idxArr.length / 3);
-
-    const desired =
-      plan.spec.readMode === "bottom"
-        ? new THREE.Vector3(0, -1, 0)
-        : new THREE.Vector3(0, 1, 0);
-
-    const A = new THREE.Vector3();
-    const B = new THREE.Vector3();
-    const C = new THREE.Vector3();
-    const N = new THREE.Vector3();
-
-    const interval = setInterval(() => {
-      if (!acceptUpdates || !ref.current) return;
-
-      const speed = Math.hypot(...velRef.current);
-      if (speed > 0.12) {
-        stableCount.current = 0;
-        return;
-      }
-
-      let bestTri = 0;
-      let bestDot = -Infinity;
+  const readSlot = useMemo(
+    () => createFaceReader(groups, corners, plan.spec.readMode),
+    [groups, corners, plan.spec.readMode],
+  );
+  const settle = useMemo(() => createSettleWatch(readSlot), [readSlot]);
+  const isCocked = useMemo(
+    () => createCockedCheck(plan.spec, groups, corners),
+    [plan.spec, groups, corners],
+  );
 
-      for (let f = 0; f < triCount; f++) {
-        const i0 = idxArr[f * 3 + 0];
-        const i1 = idxArr[f * 3 + 1];
-        const i2 = idxArr[f * 3 + 2];
+  // A rethrown die must settle afresh before it reads again, and one that
+  // starts counting again reads where it lies
+  useEffect(() => settle.reset(), [settle, rollToken, acceptUpdates]);
 
-        A.set(posAttr.getX(i0), posAttr.getY(i0), posAttr.getZ(i0));
-        B.set(posAttr.getX(i1), posAttr.getY(i1), posAttr.getZ(i1));
-        C.set(posAttr.getX(i2), posAttr.getY(i2), posAttr.getZ(i2));
+  const cockedTries = useRef(0);
+  const recovering = useRef(false);
+  const recoveryTimers = useRef<ReturnType<typeof setTimeout>[]>([]);
+  // A new throw starts the count over and calls off a pending recovery
+  useEffect(() => {
+    cockedTries.current = 0;
+    recovering.current = false;
+    setCocked(false);
+    return () => {
+      recoveryTimers.current.forEach(clearTimeout);
+      recoveryTimers.current = [];
+    };
+  }, [rollToken]);
 
-        A.applyMatrix4(ref.current.matrixWorld);
-        B.applyMatrix4(ref.current.matrixWorld);
-        C.applyMatrix4(ref.current.matrixWorld);
+  // Still leaning after being shown cocked: nudge it or throw it again
+  const recover = useCallback(() => {
+    recovering.current = false;
+    setCocked(false);
+    settle.reset();
+    const q = quatRef.current;
+    if (!isCocked(readSlot(q), q)) return;
+    const rng = seededRng(throwSeed + ++cockedTries.current);
+    onCocked?.(plan.id);
+    if (cockedRule === "nudge") {
+      const { impulse, point } = generateNudge(rng);
+      api.applyImpulse(impulse, point);
+    } else recoveryTimers.current.push(...launch(generateThrow(rng)));
+  }, [
+    settle,
+    isCocked,
+    readSlot,
+    throwSeed,
+    onCocked,
+    plan.id,
+    cockedRule,
+    api,
+    launch,
+  ]);
 
-        N.copy(C).sub(B).cross(A.clone().sub(B)).normalize();
+  // Read as the worker reports the die turning, once it comes to rest
+  useEffect(() => {
+    if (!acceptUpdates) return;
+    const valueOf = (slot: number) =>
+      plan.spec.valueForCorner
+        ? plan.spec.valueForCorner(corners[slot], corners)
+        : plan.spec.valueForGroup(groups[slot], groups);
+    const slotCount = byCorner ? corners.length : groups.length;
 
-        const d = N.dot(desired);
-        if (d > bestDot) {
-          bestDot = d;
-          bestTri = f;
-        }
+    return api.quaternion.subscribe((q) => {
+      const slot = settle.update(
+        performance.now(),
+        q,
+        velRef.current,
+        spinRef.current,
+      );
+      if (slot === null) return;
+      // A thrown die leaning on something is set straight before it counts
+      if (
+        rollToken &&
+        cockedTries.current < MAX_COCKED_TRIES &&
+        isCocked(slot, q)
+      ) {
+        if (recovering.current) return;
+        recovering.current = true;
+        setCocked(true);
+        recoveryTimers.current.push(setTimeout(recover, COCKED_MS));
+        return;
       }
-
-      const gIdx = triToGroup[bestTri];
-      if (lastGroup.current === gIdx) {
-        stableCount.current++;
-      } else {
-        lastGroup.current = gIdx;
-        stableCount.current = 1;
+      const value = valueOf(faceMap[slot] ?? slot);
+      if (targetValue === undefined || value === targetValue) {
+        onTopValue(plan.id, value);
+        return;
       }
-
-      if (stableCount.current >= 3) {
-        const value = plan.spec.valueForGroup(groups[gIdx], groups);
+      // Swap labels between the landed slot and the one carrying the target
+      let want = -1;
+      for (let i = 0; i < slotCount && want < 0; i++)
+        if (valueOf(i) === targetValue) want = i;
+      if (want < 0) {
         onTopValue(plan.id, value);
+        return;
       }
-    }, 120);
-
-    return () => clearInterval(interval);
+      const next = faceMap.length
+        ? [...faceMap]
+        : Array.from({ length: slotCount }, (_, i) => i);
+      const holder = next.indexOf(want);
+      next[holder] = next[slot];
+      next[slot] = want;
+      setFaceMap(next);
+      recorder?.setFaceMap(plan.id, next);
+      onTopValue(plan.id, targetValue);
+    });
   }, [
-    scaledGeom,
+    api.quaternion,
+    settle,
+    isCocked,
+    recover,
+    rollToken,
     onTopValue,
     plan.id,
-    ref,
+    plan.spec,
     acceptUpdates,
     groups,
-    triToGroup,
-    plan.spec.readMode,
+    corners,
+    byCorner,
+    faceMap,
+    targetValue,
+    recorder,
   ]);
 
   return (
@@ -179,12 +403,38 @@ export function Die({
       ref={ref}
       geometry={scaledGeom}
       material={mat}
+      visible={!hidden}
       castShadow
       receiveShadow
+      onClick={
+        onPick &&
+        ((e: ThreeEvent<MouseEvent>) => {
+          e.stopPropagation();
+          onPick(plan.id);
+        })
+      }
+      onPointerDown={
+        onGrab &&
+        ((e: ThreeEvent<PointerEvent>) => {
+          e.stopPropagation();
+          onGrab(plan.id, e.point);
+        })
+      }
+      onPointerOver={
+        cursor ? () => (document.body.style.cursor = cursor) : undefined
+      }
+      onPointerOut={
+        cursor ? () => (document.body.style.cursor = "") : undefined
+      }
     >
+      {plan.held && (
+        <mesh geometry={scaledGeom} scale={1.08}>
+          <meshBasicMaterial color="#2ad4ff" side={THREE.BackSide} />
+        </mesh>
+      )}
       <FaceNumbers
         groups={groups}
-        labelForGroup={plan.spec.labelForGroup}
+        labelsForGroup={labelsForGroup}
         color="white"
         size={plan.spec.labelSize ?? 0.28}
         lift={0.06}
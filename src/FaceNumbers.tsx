@@ -1,50 +1,158 @@
-import React from "react";
+import React, { useMemo } from "react";
 import * as THREE from "three";
 import { Text } from "@react-three/drei";
+import { SVGLoader } from "three/examples/jsm/loaders/SVGLoader";
 import { FaceGroup } from "./convex";
+import type { FaceLabel } from "./die-types";
+import type { SymbolDef } from "./symbols";
+
+const Z = new THREE.Vector3(0, 0, 1);
+
+/** Centre labels sit flat on the face; corner labels lean their top toward it. */
+function placeLabel(g: FaceGroup, label: FaceLabel, lift: number) {
+  const normal = g.normal.clone().normalize();
+  if (!label.toward) {
+    return {
+      position: g.center.clone().add(normal.clone().multiplyScalar(lift)),
+      quaternion: new THREE.Quaternion().setFromUnitVectors(Z, normal),
+    };
+  }
+  const up = label.toward.clone().sub(g.center);
+  const position = g.center
+    .clone()
+    .addScaledVector(up, 0.55)
+    .addScaledVector(normal, lift);
+  up.addScaledVector(normal, -up.dot(normal)).normalize();
+  const right = up.clone().cross(normal);
+  const quaternion = new THREE.Quaternion().setFromRotationMatrix(
+    new THREE.Matrix4().makeBasis(right, up, normal),
+  );
+  return { position, quaternion };
+}
+
+function Glyph({
+  text,
+  color,
+  size,
+}: {
+  text: string;
+  color: string;
+  size: number;
+}) {
+  return (
+    <Text
+      fontSize={size}
+      color={color}
+      anchorX="center"
+      anchorY="middle"
+      outlineWidth={0.012}
+      outlineColor="black"
+      renderOrder={1000}
+      depthTest={false}
+      depthWrite={false}
+      toneMapped={false}
+    >
+      {text}
+    </Text>
+  );
+}
+
+const iconGeometries = new Map<string, THREE.ShapeGeometry>();
+
+/** Flat mesh of a 24×24 SVG path, centred and `size` across. */
+function iconGeometry(path: string) {
+  let geom = iconGeometries.get(path);
+  if (!geom) {
+    const svg = new SVGLoader().parse(
+      `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path d="${path}"/></svg>`,
+    );
+    geom = new THREE.ShapeGeometry(
+      svg.paths.flatMap((p) => SVGLoader.createShapes(p)),
+    );
+    // SVG's y axis points down
+    geom.translate(-12, -12, 0).scale(1 / 24, -1 / 24, 1);
+    iconGeometries.set(path, geom);
+  }
+  return geom;
+}
+
+function SymbolIcon({
+  symbol,
+  color,
+  size,
+}: {
+  symbol: SymbolDef;
+  color: string;
+  size: number;
+}) {
+  const mat = useMemo(
+    () =>
+      new THREE.MeshBasicMaterial({
+        color,
+        side: THREE.DoubleSide,
+        depthTest: false,
+        depthWrite: false,
+        toneMapped: false,
+      }),
+    [color],
+  );
+  if (!symbol.icon)
+    return <Glyph text={symbol.glyph} color={color} size={size} />;
+  return (
+    <mesh
+      geometry={iconGeometry(symbol.icon)}
+      material={mat}
+      scale={[size, size, 1]}
+      renderOrder={1000}
+    />
+  );
+}
 
 export function FaceNumbers({
   groups,
-  labelForGroup,
+  labelsForGroup,
   color = "white",
   size = 0.28,
   lift = 0.06,
 }: {
   groups: FaceGroup[];
-  labelForGroup: (g: FaceGroup, all: FaceGroup[]) => string;
+  labelsForGroup: (g: FaceGroup, all: FaceGroup[]) => FaceLabel[];
   color?: string;
   size?: number;
   lift?: number;
 }) {
   return (
     <>
-      {groups.map((g, i) => {
-        const normal = g.normal.clone().normalize();
-        const pos = g.center.clone().add(normal.clone().multiplyScalar(lift));
-        const q = new THREE.Quaternion().setFromUnitVectors(
-          new THREE.Vector3(0, 0, 1),
-          normal,
-        );
-        const label = labelForGroup(g, groups);
-        return (
-          <group key={i} position={pos} quaternion={q}>
-            <Text
-              fontSize={size}
-              color={color}
-              anchorX="center"
-              anchorY="middle"
-              outlineWidth={0.012}
-              outlineColor="black"
-              renderOrder={1000}
-              depthTest={false}
-              depthWrite={false}
-              toneMapped={false}
+      {groups.flatMap((g, i) =>
+        labelsForGroup(g, groups).map((label, j) => {
+          const { position, quaternion } = placeLabel(g, label, lift);
+          const symbols = label.symbols ?? [];
+          return (
+            <group
+              key={`${i}-${j}`}
+              position={position}
+              quaternion={quaternion}
             >
-              {label}
-            </Text>
-          </group>
-        );
-      })}
+              {symbols.length > 0 ? (
+                symbols.map((symbol, k) => (
+                  <group
+                    key={k}
+                    position={[
+                      (k - (symbols.length - 1) / 2) * size * 1.1,
+                      0,
+                      0,
+                    ]}
+                  >
+                    <SymbolIcon symbol={symbol} color={color} size={size} />
+                  </group>
+                ))
+              ) : (
+                <Glyph text={label.text} color={color} size={size} />
+              )}
+            </group>
+          );
+        }),
+      )}
     </>
   );
 }
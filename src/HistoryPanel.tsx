@@ -0,0 +1,272 @@
+import React, { useRef, useState } from "react";
+import { SESSION_ID, type HistoryEntry } from "./history";
+import {
+  exportHistoryCSV,
+  exportHistoryJSON,
+  HistoryImportError,
+  importHistory,
+} from "./history-io";
+import { formatDiceValues, formatDieValue } from "./die-types";
+import { describeSymbolResult } from "./symbols";
+import type { RolledDie } from "./types";
+
+function describeDie(d: RolledDie) {
+  if (d.kind === "d100" && d.tens !== undefined && d.units !== undefined)
+    return `${d.value} (${String(d.tens).padStart(2, "0")}+${d.units})`;
+  return formatDieValue(d.kind, d.value);
+}
+
+function describeSet(entry: HistoryEntry) {
+  if (entry.notation) return entry.notation;
+  const counts = new Map<string, number>();
+  for (const d of entry.dice) counts.set(d.kind, (counts.get(d.kind) ?? 0) + 1);
+  return Array.from(counts, ([kind, n]) => `${n}${kind}`).join(" + ");
+}
+
+function download(filename: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+const toolButton: React.CSSProperties = {
+  padding: "3px 8px",
+  borderRadius: 6,
+  border: "1px solid #ccc",
+  background: "#fff",
+  cursor: "pointer",
+  fontSize: 12,
+};
+
+const formatTime = (at: number) =>
+  new Date(at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+export function HistoryPanel({
+  entries,
+  onReroll,
+  canReroll,
+  onImport,
+}: {
+  entries: HistoryEntry[];
+  onReroll: (entry: HistoryEntry) => void;
+  canReroll: boolean;
+  onImport: (entries: HistoryEntry[]) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [allSessions, setAllSessions] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const shown = allSessions
+    ? entries
+    : entries.filter((e) => e.session === SESSION_ID);
+
+  const stamp = () => new Date().toISOString().slice(0, 19).replace(/:/g, "-");
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.currentTarget.files?.[0];
+    e.currentTarget.value = "";
+    if (!file) return;
+    try {
+      const imported = importHistory(await file.text());
+      onImport(imported);
+      setAllSessions(true);
+      setImportMessage(`Imported ${imported.length} rolls.`);
+    } catch (err) {
+      if (!(err instanceof HistoryImportError)) throw err;
+      setImportMessage(err.message);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        zIndex: 3,
+        bottom: 12,
+        right: 12,
+        width: open ? 320 : "auto",
+        maxHeight: "60vh",
+        display: "flex",
+        flexDirection: "column",
+        background: "rgba(255,255,255,0.92)",
+        borderRadius: 8,
+        boxShadow: "0 6px 20px rgba(0,0,0,0.12)",
+        fontSize: 13,
+      }}
+    >
+      <button
+        onClick={() => setOpen((o) => !o)}
+        aria-expanded={open}
+        style={{
+          padding: "8px 10px",
+          border: "none",
+          background: "transparent",
+          textAlign: "left",
+          cursor: "pointer",
+          fontWeight: 600,
+        }}
+      >
+        {open ? "▾" : "▸"} History ({shown.length})
+      </button>
+      {open && (
+        <>
+          <label
+            style={{
+              display: "flex",
+              gap: 6,
+              alignItems: "center",
+              padding: "0 10px 6px",
+              opacity: 0.75,
+            }}
+          >
+            <input
+              type="checkbox"
+              checked={allSessions}
+              onChange={(e) => setAllSessions(e.currentTarget.checked)}
+            />
+            Show earlier sessions
+          </label>
+          <div style={{ display: "flex", gap: 6, padding: "0 10px 6px" }}>
+            <button
+              style={toolButton}
+              disabled={shown.length === 0}
+              onClick={() =>
+                download(
+                  `rolls-${stamp()}.json`,
+                  exportHistoryJSON(shown),
+                  "application/json",
+                )
+              }
+            >
+              Export JSON
+            </button>
+            <button
+              style={toolButton}
+              disabled={shown.length === 0}
+              onClick={() =>
+                download(
+                  `rolls-${stamp()}.csv`,
+                  exportHistoryCSV(shown),
+                  "text/csv",
+                )
+              }
+            >
+              Export CSV
+            </button>
+            <button style={toolButton} onClick={() => fileRef.current?.click()}>
+              Import…
+            </button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              onChange={handleFile}
+              style={{ display: "none" }}
+            />
+          </div>
+          {importMessage && (
+            <div style={{ padding: "0 10px 6px", opacity: 0.75 }}>
+              {importMessage}
+            </div>
+          )}
+          <div style={{ overflowY: "auto", padding: "0 6px 6px" }}>
+            {shown.length === 0 && (
+              <div style={{ padding: 8, opacity: 0.6 }}>No rolls yet.</div>
+            )}
+            {shown.map((entry) => {
+              const isOpen = expanded === entry.id;
+              return (
+                <div
+                  key={entry.id}
+                  style={{
+                    borderLeft: `4px solid ${entry.color}`,
+                    borderRadius: 4,
+                    margin: "4px 0",
+                    background: isOpen ? "#f4f6f8" : "transparent",
+                  }}
+                >
+                  <button
+                    onClick={() => setExpanded(isOpen ? null : entry.id)}
+                    style={{
+                      display: "flex",
+                      width: "100%",
+                      gap: 6,
+                      padding: "4px 6px",
+                      border: "none",
+                      background: "transparent",
+                      cursor: "pointer",
+                      textAlign: "left",
+                    }}
+                  >
+                    <span style={{ opacity: 0.55 }}>
+                      {formatTime(entry.at)}
+                    </span>
+                    <span style={{ flex: 1 }}>
+                      <strong>{entry.by}</strong> {describeSet(entry)}
+                      {entry.step && (
+                        <span style={{ opacity: 0.55 }}>
+                          {" "}
+                          · reroll {entry.step.number - 1}
+                        </span>
+                      )}
+                    </span>
+                    <strong>{entry.outcome ?? entry.total}</strong>
+                  </button>
+                  {isOpen && (
+                    <div style={{ padding: "2px 8px 8px" }}>
+                      <div style={{ marginBottom: 6 }}>
+                        {entry.dice.map((d, i) => (
+                          <span
+                            key={i}
+                            style={{ marginRight: 8, whiteSpace: "nowrap" }}
+                          >
+                            <span style={{ opacity: 0.55 }}>{d.kind}</span>{" "}
+                            {describeDie(d)}
+                          </span>
+                        ))}
+                      </div>
+                      {describeSymbolResult(entry.dice) && (
+                        <div style={{ marginBottom: 6 }}>
+                          {describeSymbolResult(entry.dice)}
+                        </div>
+                      )}
+                      {entry.step && entry.step.held.length > 0 && (
+                        <div style={{ marginBottom: 6, opacity: 0.75 }}>
+                          Held {formatDiceValues(entry.step.held)}
+                        </div>
+                      )}
+                      {!!entry.modifier && (
+                        <div style={{ marginBottom: 6, opacity: 0.75 }}>
+                          Modifier {entry.modifier > 0 ? "+" : ""}
+                          {entry.modifier}
+                        </div>
+                      )}
+                      <button
+                        onClick={() => onReroll(entry)}
+                        disabled={!canReroll}
+                        style={{
+                          padding: "4px 8px",
+                          borderRadius: 6,
+                          border: "1px solid #ccc",
+                          background: canReroll ? "#fff" : "#f1f1f1",
+                          cursor: canReroll ? "pointer" : "not-allowed",
+                        }}
+                      >
+                        Re-roll
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+import React, { useMemo, useRef, useState } from "react";
+import { Canvas, type ThreeEvent } from "@react-three/fiber";
+import { OrbitControls } from "@react-three/drei";
+import * as THREE from "three";
+import type { DieType } from "./die-types";
+import { FaceNumbers } from "./FaceNumbers";
+import {
+  loadMeshDie,
+  meshDieType,
+  MeshImportError,
+  type MeshDie,
+} from "./mesh-dice";
+
+const buttonStyle: React.CSSProperties = {
+  fontSize: 13,
+  padding: "6px 10px",
+  borderRadius: 6,
+  border: "1px solid rgba(0,0,0,0.2)",
+  background: "#fff",
+  cursor: "pointer",
+};
+
+/** The model with its current values; clicking a face selects it. */
+function MeshPreview({
+  mesh,
+  values,
+  selected,
+  onSelect,
+}: {
+  mesh: MeshDie;
+  values: string[];
+  selected: number | null;
+  onSelect: (group: number) => void;
+}) {
+  const highlight = useMemo(() => {
+    if (selected === null) return null;
+    const pos = mesh.geometry.getAttribute("position");
+    const lift = mesh.groups[selected].normal.clone().multiplyScalar(0.004);
+    const v = new THREE.Vector3();
+    const out: number[] = [];
+    for (const t of mesh.groups[selected].triIndices)
+      for (let k = 0; k < 3; k++) {
+        v.fromBufferAttribute(pos, t * 3 + k).add(lift);
+        out.push(v.x, v.y, v.z);
+      }
+    const g = new THREE.BufferGeometry();
+    g.setAttribute("position", new THREE.Float32BufferAttribute(out, 3));
+    return g;
+  }, [mesh, selected]);
+
+  return (
+    <Canvas camera={{ position: [0, 1.2, 2.4], fov: 45 }}>
+      <ambientLight intensity={0.6} />
+      <directionalLight position={[3, 5, 4]} intensity={1.1} />
+      <mesh
+        geometry={mesh.geometry}
+        onClick={(e: ThreeEvent<MouseEvent>) => {
+          e.stopPropagation();
+          if (e.faceIndex != null) onSelect(mesh.triToGroup[e.faceIndex]);
+        }}
+      >
+        <meshStandardMaterial color="#c61732" roughness={0.5} />
+        <FaceNumbers
+          groups={mesh.groups}
+          labelsForGroup={(g) => [
+            { text: values[mesh.groups.indexOf(g)] || "?" },
+          ]}
+          color="white"
+          size={0.2}
+          lift={0.02}
+        />
+      </mesh>
+      {highlight && (
+        <mesh geometry={highlight}>
+          <meshBasicMaterial color="#ffd54f" transparent opacity={0.6} />
+        </mesh>
+      )}
+      <OrbitControls enablePan={false} />
+    </Canvas>
+  );
+}
+
+/**
+ * Toolbar button that turns a glTF/OBJ model into a die: faces are detected
+ * from the mesh and the user gives each one a value. Mesh dice last for the
+ * session only; packs are the way to keep homebrew dice around.
+ */
+export function MeshDieImport({
+  onAdd,
+  disabled,
+}: {
+  onAdd: (type: DieType) => void;
+  disabled?: boolean;
+}) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [mesh, setMesh] = useState<MeshDie | null>(null);
+  const [kind, setKind] = useState("");
+  const [values, setValues] = useState<string[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [error, setError] = useState<string>();
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.currentTarget.files?.[0];
+    e.currentTarget.value = "";
+    if (!file) return;
+    setError(undefined);
+    try {
+      const loaded = await loadMeshDie(file);
+      setMesh(loaded);
+      setKind(`d${loaded.name.toLowerCase().replace(/[^a-z0-9]/g, "")}`);
+      setValues(loaded.values.map(String));
+      setSelected(null);
+    } catch (err) {
+      if (!(err instanceof MeshImportError)) throw err;
+      setError(err.message);
+    }
+  };
+
+  const add = () => {
+    if (!mesh) return;
+    try {
+      onAdd(
+        meshDieType(
+          mesh,
+          kind,
+          values.map((v) => (v.trim() ? Number(v) : NaN)),
+        ),
+      );
+      setMesh(null);
+    } catch (err) {
+      if (!(err instanceof MeshImportError)) throw err;
+      setError(err.message);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => fileRef.current?.click()}
+        disabled={disabled}
+        title="Make a die from a glTF or OBJ model"
+        style={{
+          fontSize: 13,
+          padding: "6px 8px",
+          borderRadius: 6,
+          border: "1px dashed rgba(0,0,0,0.3)",
+          background: "#fff",
+          cursor: disabled ? "not-allowed" : "pointer",
+        }}
+      >
+        + Mesh die…
+      </button>
+      <input
+        ref={fileRef}
+        type="file"
+        accept=".glb,.gltf,.obj,model/gltf-binary,model/gltf+json"
+        onChange={handleFile}
+        style={{ display: "none" }}
+      />
+      {error && !mesh && (
+        <span style={{ fontSize: 12, maxWidth: 260, color: "#b00020" }}>
+          {error}
+        </span>
+      )}
+
+      {mesh && (
+        <div
+          role="dialog"
+          aria-label="Map die faces"
+          style={{
+            position: "fixed",
+            inset: 0,
+            background: "rgba(0,0,0,0.35)",
+            zIndex: 5,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+          }}
+        >
+          <div
+            style={{
+              background: "rgba(255,255,255,0.97)",
+              padding: "16px 18px",
+              borderRadius: 10,
+              width: 420,
+              maxHeight: "90vh",
+              overflowY: "auto",
+              boxShadow: "0 12px 40px rgba(0,0,0,0.25)",
+              fontSize: 13,
+            }}
+          >
+            <div style={{ fontSize: 16, fontWeight: 700, marginBottom: 8 }}>
+              {mesh.name}: {mesh.groups.length} faces
+            </div>
+            {mesh.warnings.map((w) => (
+              <div key={w} style={{ color: "#8a5a00", marginBottom: 6 }}>
+                ⚠ {w}
+              </div>
+            ))}
+            <div
+              style={{
+                height: 220,
+                background: "#eef2ee",
+                borderRadius: 8,
+                margin: "8px 0",
+              }}
+            >
+              <MeshPreview
+                mesh={mesh}
+                values={values}
+                selected={selected}
+                onSelect={setSelected}
+              />
+            </div>
+            <div style={{ opacity: 0.7, marginBottom: 6 }}>
+              Click a face, or a field, to see which is which.
+            </div>
+            <div
+              style={{
+                display: "grid",
+                gridTemplateColumns: "repeat(4, 1fr)",
+                gap: 6,
+                marginBottom: 10,
+              }}
+            >
+              {values.map((v, i) => (
+                <label
+                  key={i}
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: 4,
+                    padding: 2,
+                    borderRadius: 4,
+                    background: selected === i ? "#ffd54f" : "transparent",
+                  }}
+                >
+                  {i + 1}
+                  <input
+                    value={v}
+                    inputMode="numeric"
+                    onFocus={() => setSelected(i)}
+                    onChange={(e) => {
+                      const next = [...values];
+                      next[i] = e.currentTarget.value;
+                      setValues(next);
+                    }}
+                    style={{ width: "100%", minWidth: 0 }}
+                  />
+                </label>
+              ))}
+            </div>
+            <label style={{ display: "block", marginBottom: 10 }}>
+              Kind{" "}
+              <input
+                value={kind}
+                onChange={(e) => setKind(e.currentTarget.value)}
+                style={{ width: 160 }}
+              />
+            </label>
+            {error && (
+              <div style={{ color: "#b00020", marginBottom: 8 }}>{error}</div>
+            )}
+            <div style={{ textAlign: "right" }}>
+              <button
+                onClick={() => {
+                  setMesh(null);
+                  setError(undefined);
+                }}
+                style={{ ...buttonStyle, marginRight: 8 }}
+              >
+                Cancel
+              </button>
+              <button onClick={add} style={buttonStyle}>
+                Add die
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
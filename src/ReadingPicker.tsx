@@ -0,0 +1,57 @@
+import React from "react";
+import {
+  READING_PRESETS,
+  resolveReading,
+  type ReadingChoice,
+} from "./readings";
+
+/** Toolbar control for how the next roll is read: sum, successes, highest. */
+export function ReadingPicker({
+  choice,
+  onChange,
+  disabled,
+}: {
+  choice: ReadingChoice;
+  onChange: (choice: ReadingChoice) => void;
+  disabled?: boolean;
+}) {
+  const reading = resolveReading(choice);
+  return (
+    <label
+      style={{ display: "flex", gap: 4, alignItems: "center", fontSize: 13 }}
+    >
+      Read as
+      <select
+        value={choice.preset}
+        onChange={(e) => onChange({ preset: e.currentTarget.value })}
+        disabled={disabled}
+        style={{ fontSize: 13, padding: "5px 4px", borderRadius: 6 }}
+      >
+        {READING_PRESETS.map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.name}
+          </option>
+        ))}
+      </select>
+      {reading.type === "successes" && (
+        <>
+          ≥
+          <input
+            type="number"
+            min={1}
+            value={reading.target}
+            onChange={(e) =>
+              onChange({
+                ...choice,
+                target: Number(e.currentTarget.value) || undefined,
+              })
+            }
+            disabled={disabled}
+            aria-label="Target number"
+            style={{ width: 44, fontSize: 13, padding: "5px 4px" }}
+          />
+        </>
+      )}
+    </label>
+  );
+}
@@ -0,0 +1,88 @@
+import React, { useMemo, useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+import { specForKind, type DieSpec } from "./die-types";
+import { useDieModel, useFaceLabels } from "./Die";
+import { FaceNumbers } from "./FaceNumbers";
+import { poseAt, type DieTrack, type ReplayRecording } from "./replay";
+
+function ReplayDie({
+  track,
+  spec,
+  clock,
+}: {
+  track: DieTrack;
+  spec: DieSpec;
+  clock: React.MutableRefObject<number>;
+}) {
+  const ref = useRef<THREE.Mesh>(null);
+  const { scaledGeom, groups, corners } = useDieModel(spec);
+
+  const mat = useMemo(
+    () =>
+      new THREE.MeshStandardMaterial({
+        color: track.color ?? spec.color ?? "#ffffff",
+        roughness: 0.45,
+        metalness: 0.1,
+        side: THREE.DoubleSide,
+      }),
+    [track.color, spec.color],
+  );
+
+  const labelsForGroup = useFaceLabels(spec, corners, track.faceMap);
+
+  useFrame(() => {
+    if (!ref.current) return;
+    // Dice added by a later wave appear when they were thrown
+    ref.current.visible = clock.current >= track.frames[0];
+    poseAt(track, clock.current, ref.current);
+  });
+
+  return (
+    <mesh ref={ref} geometry={scaledGeom} material={mat} castShadow>
+      <FaceNumbers
+        groups={groups}
+        labelsForGroup={labelsForGroup}
+        color="white"
+        size={spec.labelSize ?? 0.28}
+        lift={0.06}
+      />
+    </mesh>
+  );
+}
+
+/**
+ * Plays a recorded throw back from its sampled transforms. Nothing here
+ * touches the physics world, so a replay looks the same every time.
+ */
+export function ReplayDice({
+  recording,
+  speed,
+  onDone,
+}: {
+  recording: ReplayRecording;
+  speed: number;
+  onDone: () => void;
+}) {
+  const clock = useRef(0);
+  const done = useRef(false);
+
+  useFrame((_, delta) => {
+    clock.current += delta * 1000 * speed;
+    if (!done.current && clock.current > recording.duration + 600) {
+      done.current = true;
+      onDone();
+    }
+  });
+
+  return (
+    <>
+      {recording.dice.map((track) => {
+        const spec = specForKind(track.kind);
+        return spec ? (
+          <ReplayDie key={track.id} track={track} spec={spec} clock={clock} />
+        ) : null;
+      })}
+    </>
+  );
+}
@@ -0,0 +1,278 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { formatDiceValues } from "./die-types";
+import { describeSymbolResult } from "./symbols";
+import { verifyFairRoll, type FairStatus } from "./fair";
+import type { RoomStatus } from "./room";
+import type { RoomError, RoomMember, SharedRoll } from "./types";
+
+const STATUS_LABEL: Record<RoomStatus, string> = {
+  connecting: "Connecting…",
+  joined: "Connected",
+  error: "Could not join",
+  kicked: "Removed from the room",
+  offline: "Offline",
+};
+
+export function describeProviders(providers?: string[]) {
+  if (!providers?.length) return "server";
+  return `server · ${Array.from(new Set(providers)).join(" + ")}`;
+}
+
+const smallButton: React.CSSProperties = {
+  fontSize: 11,
+  padding: "2px 6px",
+  borderRadius: 4,
+  border: "1px solid #ccc",
+  background: "#fff",
+  cursor: "pointer",
+};
+
+function Swatch({ color }: { color: string }) {
+  return (
+    <span
+      style={{
+        width: 12,
+        height: 12,
+        borderRadius: "50%",
+        background: color,
+        display: "inline-block",
+        border: "1px solid rgba(0,0,0,0.15)",
+        flexShrink: 0,
+      }}
+    />
+  );
+}
+
+export function RoomPanel({
+  status,
+  error,
+  members,
+  selfId,
+  isOwner,
+  onKick,
+  onRotateCode,
+}: {
+  status: RoomStatus;
+  error: RoomError | null;
+  members: RoomMember[];
+  selfId: string | null;
+  isOwner: boolean;
+  onKick: (memberId: string) => void;
+  onRotateCode: () => void;
+}) {
+  return (
+    <div
+      style={{
+        position: "absolute",
+        zIndex: 2,
+        top: 64,
+        right: 10,
+        minWidth: 160,
+        background: "rgba(255,255,255,0.8)",
+        borderRadius: 8,
+        padding: "8px 10px",
+        fontSize: 13,
+      }}
+    >
+      <div style={{ opacity: 0.65, marginBottom: 6 }}>
+        {STATUS_LABEL[status]}
+        {error && `: ${error.message}`}
+      </div>
+      {members.map((m) => (
+        <div
+          key={m.id}
+          style={{ display: "flex", alignItems: "center", gap: 6 }}
+        >
+          <Swatch color={m.color} />
+          <span style={{ fontWeight: m.id === selfId ? 700 : 400 }}>
+            {m.username}
+          </span>
+          {m.owner && <span title="Room owner">★</span>}
+          {isOwner && m.id !== selfId && (
+            <button
+              onClick={() => onKick(m.id)}
+              style={{ ...smallButton, marginLeft: "auto" }}
+            >
+              Kick
+            </button>
+          )}
+        </div>
+      ))}
+      {isOwner && (
+        <button onClick={onRotateCode} style={{ ...smallButton, marginTop: 8 }}>
+          Rotate room code
+        </button>
+      )}
+    </div>
+  );
+}
+
+const FAIR_BADGE: Record<FairStatus, { text: string; bg: string; fg: string }> =
+  {
+    checking: { text: "verifying…", bg: "#f1f1f1", fg: "#555" },
+    verified: { text: "✓ verified", bg: "#e6f4ea", fg: "#1e6b35" },
+    failed: { text: "✗ verification failed", bg: "#fde8e8", fg: "#b00020" },
+    unavailable: { text: "can't verify here", bg: "#f1f1f1", fg: "#555" },
+  };
+
+export function FairBadge({ status }: { status: FairStatus }) {
+  const { text, bg, fg } = FAIR_BADGE[status];
+  return (
+    <span
+      title="Commit-reveal roll, recomputed locally from the revealed seeds"
+      style={{
+        display: "inline-block",
+        fontSize: 11,
+        padding: "1px 6px",
+        borderRadius: 4,
+        background: bg,
+        color: fg,
+      }}
+    >
+      {text}
+    </span>
+  );
+}
+
+function RemoteFairBadge({
+  roll,
+  commitments,
+}: {
+  roll: SharedRoll;
+  commitments: Record<string, string>;
+}) {
+  const [status, setStatus] = useState<FairStatus>("checking");
+  const reveal = roll.reveal;
+  // Rolls with rerolls or explosions have a reveal per server request
+  const waves = useMemo(
+    () => roll.waves ?? [{ dice: roll.dice, reveal }],
+    [roll.waves, roll.dice, reveal],
+  );
+  const published = waves.map((w) =>
+    w.reveal ? commitments[w.reveal.commitId] : undefined,
+  );
+  const publishedKey = published.join(",");
+
+  useEffect(() => {
+    if (!reveal) return;
+    // A commitment we never saw published can't vouch for anything
+    const seen = publishedKey.split(",");
+    if (seen.some((c) => !c)) return setStatus("failed");
+    let live = true;
+    Promise.all(
+      waves.map((w, k) =>
+        verifyFairRoll(
+          w.reveal!,
+          seen[k],
+          w.dice.map((d) => d.kind),
+          w.dice.map((d) => d.value),
+        ),
+      ),
+    )
+      .then(
+        (oks) => live && setStatus(oks.every(Boolean) ? "verified" : "failed"),
+      )
+      .catch(() => live && setStatus("unavailable"));
+    return () => {
+      live = false;
+    };
+  }, [reveal, publishedKey, waves]);
+
+  return <FairBadge status={status} />;
+}
+
+export function RollFeed({
+  feed,
+  commitments,
+  onReplay,
+}: {
+  feed: SharedRoll[];
+  commitments: Record<string, string>;
+  onReplay: (roll: SharedRoll) => void;
+}) {
+  if (feed.length === 0) return null;
+  return (
+    <div
+      style={{
+        position: "absolute",
+        zIndex: 2,
+        bottom: 12,
+        left: 12,
+        display: "flex",
+        flexDirection: "column-reverse",
+        gap: 6,
+        maxWidth: 360,
+      }}
+    >
+      {feed.slice(0, 5).map((roll) => (
+        <div
+          key={roll.id}
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: 8,
+            background: "rgba(255,255,255,0.9)",
+            borderLeft: `4px solid ${roll.color}`,
+            borderRadius: 6,
+            padding: "6px 10px",
+            fontSize: 14,
+          }}
+        >
+          <Swatch color={roll.color} />
+          <span>
+            <strong>{roll.by}</strong> rolled{" "}
+            {roll.notation ?? formatDiceValues(roll.dice)}
+            {roll.step && ` (reroll ${roll.step.number - 1})`}
+            {roll.authoritative ? (
+              // The server checked the total; how the dice were read is the roller's word
+              <>
+                {" = "}
+                <strong>{roll.total}</strong>
+                {roll.outcome && (
+                  <span
+                    title="Read by the roller; the server only checked the dice and total"
+                    style={{ color: "#666", fontStyle: "italic" }}
+                  >
+                    {` · ${roll.outcome} (unverified)`}
+                  </span>
+                )}
+              </>
+            ) : (
+              <>
+                {roll.outcome ? ": " : " = "}
+                <strong>{roll.outcome ?? roll.total}</strong>
+              </>
+            )}
+            {describeSymbolResult(roll.dice) &&
+              ` · ${describeSymbolResult(roll.dice)}`}
+          </span>
+          {roll.authoritative && (
+            <span
+              title={`Values rolled by the server (${
+                roll.providers?.join(", ") ?? "unknown source"
+              })`}
+              style={{
+                marginLeft: "auto",
+                fontSize: 11,
+                padding: "1px 6px",
+                borderRadius: 4,
+                background: "#e7f0fb",
+                color: "#1d4f91",
+              }}
+            >
+              {describeProviders(roll.providers)}
+            </span>
+          )}
+          {roll.reveal && (
+            <RemoteFairBadge roll={roll} commitments={commitments} />
+          )}
+          {roll.replay && (
+            <button onClick={() => onReplay(roll)} style={smallButton}>
+              Replay
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import React from "react";
-import type { UserConfig } from "./types";
+import { DEFAULT_TRAY, isTraySize, MAX_TRAY_SIDE, MIN_TRAY_SIDE } from "./tray";
+import type { CockedRule, UserConfig } from "./types";
 
 export function randomColor() {
   return (
@@ -16,6 +17,13 @@ export function randomCode() {
   return Math.random().toString(36).slice(2, 6).toUpperCase();
 }
 
+const traySideStyle: React.CSSProperties = {
+  width: 56,
+  fontSize: 13,
+  padding: "4px 6px",
+  borderRadius: 6,
+};
+
 export default function UserConfigForm({
   initial,
   onSubmit,
@@ -29,6 +37,11 @@ export default function UserConfigForm({
   const [roomCode, setRoomCode] = React.useState(
     initial?.room?.code ?? randomCode(),
   );
+  const [fair, setFair] = React.useState(initial?.room?.fair ?? false);
+  const [cocked, setCocked] = React.useState<CockedRule>(
+    initial?.room?.cocked ?? "rethrow",
+  );
+  const [tray, setTray] = React.useState(initial?.room?.tray ?? DEFAULT_TRAY);
   const [error, setError] = React.useState<string | null>(null);
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -38,11 +51,21 @@ export default function UserConfigForm({
     if (!roomId.trim()) return setError("Room ID is required.");
     if (!/^[A-Z0-9]{4,8}$/i.test(roomCode))
       return setError("Room code must be 4–8 letters/numbers.");
+    if (!isTraySize(tray))
+      return setError(
+        `Tray sides must be ${MIN_TRAY_SIDE}–${MAX_TRAY_SIDE} units.`,
+      );
     setError(null);
     onSubmit({
       name: name.trim(),
       color: color.toUpperCase(),
-      room: { id: roomId.trim(), code: roomCode.toUpperCase() },
+      room: {
+        id: roomId.trim(),
+        code: roomCode.toUpperCase(),
+        fair,
+        cocked,
+        tray,
+      },
     });
   };
 
@@ -173,6 +196,82 @@ export default function UserConfigForm({
         </label>
       </div>
 
+      <label
+        style={{
+          display: "flex",
+          gap: 8,
+          alignItems: "center",
+          marginTop: 12,
+          fontSize: 13,
+        }}
+      >
+        <input
+          type="checkbox"
+          checked={fair}
+          onChange={(e) => setFair(e.currentTarget.checked)}
+        />
+        Provably fair rolls (applies when you create the room)
+      </label>
+
+      <label
+        style={{
+          display: "flex",
+          gap: 8,
+          alignItems: "center",
+          marginTop: 8,
+          fontSize: 13,
+        }}
+      >
+        Cocked dice
+        <select
+          value={cocked}
+          onChange={(e) => setCocked(e.currentTarget.value as CockedRule)}
+          style={{ fontSize: 13, padding: "4px 6px", borderRadius: 6 }}
+        >
+          <option value="rethrow">are thrown again</option>
+          <option value="nudge">get a nudge</option>
+        </select>
+        (applies when you create the room)
+      </label>
+
+      <label
+        style={{
+          display: "flex",
+          gap: 8,
+          alignItems: "center",
+          marginTop: 8,
+          fontSize: 13,
+        }}
+      >
+        Tray
+        <input
+          type="number"
+          min={MIN_TRAY_SIDE}
+          max={MAX_TRAY_SIDE}
+          value={Number.isNaN(tray.width) ? "" : tray.width}
+          aria-label="Tray width"
+          onChange={(e) => {
+            const width = e.currentTarget.valueAsNumber;
+            setTray((t) => ({ ...t, width }));
+          }}
+          style={traySideStyle}
+        />
+        ×
+        <input
+          type="number"
+          min={MIN_TRAY_SIDE}
+          max={MAX_TRAY_SIDE}
+          value={Number.isNaN(tray.depth) ? "" : tray.depth}
+          aria-label="Tray depth"
+          onChange={(e) => {
+            const depth = e.currentTarget.valueAsNumber;
+            setTray((t) => ({ ...t, depth }));
+          }}
+          style={traySideStyle}
+        />
+        (applies when you create the room)
+      </label>
+
       {error && <div style={{ marginTop: 12, color: "#b00020" }}>{error}</div>}
 
       <div style={{ display: "flex", gap: 10, marginTop: 16 }}>
@@ -196,6 +295,7 @@ export default function UserConfigForm({
             setColor(randomColor());
             setRoomId(randomId());
             setRoomCode(randomCode());
+            setFair(false);
             setError(null);
           }}
           style={{
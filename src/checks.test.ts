@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { applyCheckMode } from "./checks";
+import { evaluateRoll, formatNotation, parseNotation } from "./notation";
+
+const checked = (text: string, mode: Parameters<typeof applyCheckMode>[1]) =>
+  formatNotation(applyCheckMode(parseNotation(text), mode));
+
+describe("applyCheckMode", () => {
+  it("doubles a single d20 and takes it back", () => {
+    expect(checked("1d20 + 5", "advantage")).toBe("2d20kh1 + 5");
+    expect(checked("2d20kh1 + 5", "disadvantage")).toBe("2d20kl1 + 5");
+    expect(checked("2d20kl1 + 5", "normal")).toBe("1d20 + 5");
+  });
+
+  it("keeps the pair's keep rule with dice added next to it", () => {
+    const node = applyCheckMode(parseNotation("2d20kh1 + 1d4"), "advantage");
+    expect(formatNotation(node)).toBe("2d20kh1 + 1d4");
+    expect(evaluateRoll(node, [[3], [18], [2]]).total).toBe(20);
+  });
+
+  it("leaves other d20 terms alone", () => {
+    expect(checked("3d20", "advantage")).toBe("3d20");
+    expect(checked("2d20kh2", "advantage")).toBe("2d20kh2");
+    expect(checked("2d20", "normal")).toBe("2d20");
+  });
+
+  it("leaves a typed 2d20 whole under advantage", () => {
+    expect(checked("2d20", "advantage")).toBe("2d20");
+    expect(checked("2d20 + 1d20", "disadvantage")).toBe("2d20 + 2d20kl1");
+  });
+});
@@ -0,0 +1,88 @@
+import type { RollNode } from "./notation";
+import type { DieMark, ReadDie } from "./readings";
+
+/** D&D-style d20 modes: advantage keeps the higher of two d20s. */
+export type CheckMode = "normal" | "advantage" | "disadvantage";
+
+/** How a roll is checked: its d20 mode, and the DC/AC it has to meet. */
+export type RollCheck = { mode: CheckMode; dc?: number };
+
+/**
+ * `node` with its single d20s doubled for advantage (2d20kh1) or
+ * disadvantage (2d20kl1), or back to one d20 for a normal roll. Other d20
+ * terms, like 2d20 or 2d20kh2, are left alone.
+ */
+export function applyCheckMode(node: RollNode, mode: CheckMode): RollNode {
+  switch (node.type) {
+    case "dice": {
+      if (node.kind !== "d20") return node;
+      const single = node.count === 1 && !node.keep;
+      const paired =
+        node.count === 2 &&
+        node.keep?.count === 1 &&
+        (node.keep.mode === "kh" || node.keep.mode === "kl");
+      if (!single && !paired) return node;
+      if (mode === "normal") return { ...node, count: 1, keep: undefined };
+      return {
+        ...node,
+        count: 2,
+        keep: { mode: mode === "advantage" ? "kh" : "kl", count: 1 },
+      };
+    }
+    case "constant":
+      return node;
+    case "group":
+    case "negate":
+      return { ...node, expr: applyCheckMode(node.expr, mode) };
+    case "binary":
+      return {
+        ...node,
+        left: applyCheckMode(node.left, mode),
+        right: applyCheckMode(node.right, mode),
+      };
+  }
+}
+
+export type CheckReading = {
+  /** Whether the score met the DC; undefined without one. */
+  success?: boolean;
+  /** "Natural 20" and "Natural 1". */
+  notes: string[];
+  /** Natural 20s as critical, natural 1s as failure; per die read. */
+  marks: (DieMark | null)[];
+};
+
+/**
+ * Checks `score` (the total, or what a reading made of the dice) against
+ * the DC, and flags natural 1s and 20s on kept d20s.
+ */
+export function readCheck(
+  check: RollCheck,
+  score: number,
+  dice: ReadDie[],
+): CheckReading {
+  const marks = dice.map((d) =>
+    d.kind !== "d20" || !d.kept
+      ? null
+      : d.value === 20
+      ? "critical"
+      : d.value === 1
+      ? "failure"
+      : null,
+  );
+  const notes: string[] = [];
+  const success = check.dc === undefined ? undefined : score >= check.dc;
+  if (marks.includes("critical")) notes.push("Natural 20");
+  if (marks.includes("failure")) notes.push("Natural 1");
+  return { success, notes, marks };
+}
+
+/** The verdict and notes in a line's worth of parts, e.g. for feeds. */
+export function describeCheck(check: RollCheck, c: CheckReading): string[] {
+  return [
+    ...(c.success === undefined
+      ? []
+      : [`${c.success ? "Success" : "Failure"} vs DC ${check.dc}`]),
+    ...c.notes,
+  ];
+}
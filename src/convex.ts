@@ -55,6 +55,114 @@ export function geometryToConvexArgs(geom: THREE.BufferGeometry): ConvexArgs {
   return { vertices, faces };
 }
 
+/**
+ * Convex hull of a small point set as a non-indexed geometry with outward
+ * winding. Brute force over point triples, which is fine for die-sized
+ * inputs and keeps coplanar points on one face (rhombi, coin caps).
+ */
+export function convexHullGeometry(
+  points: THREE.Vector3[],
+): THREE.BufferGeometry {
+  const eps = 1e-6;
+  const seen = new Set<string>();
+  const pos: number[] = [];
+  const AB = new THREE.Vector3();
+  const AC = new THREE.Vector3();
+
+  for (let i = 0; i < points.length; i++)
+    for (let j = i + 1; j < points.length; j++)
+      for (let k = j + 1; k < points.length; k++) {
+        const n = AB.subVectors(points[j], points[i])
+          .cross(AC.subVectors(points[k], points[i]))
+          .clone();
+        if (n.lengthSq() < eps) continue;
+        n.normalize();
+        let d = n.dot(points[i]);
+        if (d < 0) {
+          n.negate();
+          d = -d;
+        }
+        if (points.some((p) => n.dot(p) > d + eps)) continue;
+        const key = n
+          .toArray()
+          .map((v) => v.toFixed(4))
+          .join(",");
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        // Order the face's points around its centre, counter-clockwise
+        // seen from outside, then fan-triangulate
+        const face = points.filter((p) => Math.abs(n.dot(p) - d) < eps);
+        const c = face
+          .reduce((a, p) => a.add(p), new THREE.Vector3())
+          .divideScalar(face.length);
+        const u = face[0].clone().sub(c).normalize();
+        const v = n.clone().cross(u);
+        const angle = (p: THREE.Vector3) => {
+          const r = p.clone().sub(c);
+          return Math.atan2(r.dot(v), r.dot(u));
+        };
+        face.sort((a, b) => angle(a) - angle(b));
+        for (let f = 1; f < face.length - 1; f++)
+          for (const p of [face[0], face[f], face[f + 1]])
+            pos.push(p.x, p.y, p.z);
+      }
+
+  const g = new THREE.BufferGeometry();
+  g.setAttribute("position", new THREE.Float32BufferAttribute(pos, 3));
+  g.computeVertexNormals();
+  return g;
+}
+
+/**
+ * Geometry for explicit polygon faces (vertex indices, any winding). Faces
+ * are fan-triangulated and wound to face away from the centroid.
+ */
+export function polyhedronGeometry(
+  vertices: [number, number, number][],
+  faces: number[][],
+): THREE.BufferGeometry {
+  const V = vertices.map(([x, y, z]) => new THREE.Vector3(x, y, z));
+  const centroid = V.reduce(
+    (a, v) => a.add(v),
+    new THREE.Vector3(),
+  ).divideScalar(V.length);
+  const pos: number[] = [];
+  const n = new THREE.Vector3();
+  const e = new THREE.Vector3();
+  for (const face of faces) {
+    const pts = face.map((i) => V[i]);
+    n.subVectors(pts[1], pts[0]).cross(e.subVectors(pts[2], pts[0]));
+    if (n.dot(pts[0].clone().sub(centroid)) < 0) pts.reverse();
+    for (let f = 1; f < pts.length - 1; f++)
+      for (const p of [pts[0], pts[f], pts[f + 1]]) pos.push(p.x, p.y, p.z);
+  }
+  const g = new THREE.BufferGeometry();
+  g.setAttribute("position", new THREE.Float32BufferAttribute(pos, 3));
+  g.computeVertexNormals();
+  return g;
+}
+
+/** True when no vertex lies outside the plane of any triangle. */
+export function isConvex({ vertices, faces }: ConvexArgs, eps = 1e-4) {
+  const V = vertices.map(([x, y, z]) => new THREE.Vector3(x, y, z));
+  const AB = new THREE.Vector3();
+  const AC = new THREE.Vector3();
+  return faces.every(([a, b, c]) => {
+    const n = AB.subVectors(V[b], V[a]).cross(AC.subVectors(V[c], V[a]));
+    if (n.lengthSq() < 1e-12) return false;
+    n.normalize();
+    const d = n.dot(V[a]);
+    return V.every((v) => n.dot(v) <= d + eps);
+  });
+}
+
+/** Distinct vertex positions of a geometry, i.e. the corners of the die. */
+export function buildCorners(geom: THREE.BufferGeometry): THREE.Vector3[] {
+  const { vertices } = geometryToConvexArgs(geom);
+  return vertices.map(([x, y, z]) => new THREE.Vector3(x, y, z));
+}
+
 export type FaceGroup = {
   normal: THREE.Vector3;
   center: THREE.Vector3;
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { DicePackError, readDicePack } from "./dice-packs";
+
+const PACK = `format: teal-dice/dice-pack
+version: 1
+name: Homebrew
+dice:
+  - kind: d6star
+    shape: d6
+    faces: [1, 2, 3, 4, 5, { value: 6, label: "★" }]
+    color: "#2266aa"
+  - kind: prism
+    notation: dP
+    shape:
+      vertices: [[0,1,1],[0.87,-0.5,1],[-0.87,-0.5,1],[0,1,-1],[0.87,-0.5,-1],[-0.87,-0.5,-1]]
+      faces: [[0,1,2],[3,5,4],[0,3,4,1],[1,4,5,2],[2,5,3,0]]
+    faces: [1,2,3,4,5]
+`;
+
+describe("readDicePack", () => {
+  it("reads built-in and custom shapes", () => {
+    const { name, dice } = readDicePack(PACK);
+    expect(name).toBe("Homebrew");
+    expect(dice.map((d) => [d.kind, d.notation, d.range])).toEqual([
+      ["d6star", "d6star", [1, 6]],
+      ["prism", "dP", [1, 5]],
+    ]);
+    expect(dice[0].format?.(6)).toBe("★");
+  });
+
+  it.each([
+    ["not a pack", "format: nope", "Not a dice pack"],
+    ["unreadable", "{bad json", "Could not read the pack"],
+    [
+      "a die that isn't an object",
+      PACK.replace("  - kind: d6star", "  - 3\n  - kind: d6star"),
+      "Die 1: not an object",
+    ],
+    [
+      "a taken kind",
+      PACK.replace("kind: prism", "kind: d6"),
+      "kind d6 is already taken",
+    ],
+    [
+      "an unknown shape",
+      PACK.replace("shape: d6", "shape: d7"),
+      "unknown shape d7",
+    ],
+    [
+      "a missing face",
+      PACK.replace("[1, 2, 3, 4, 5, {", "[1, 2, 3, 4, {"),
+      "faces must list 6 entries",
+    ],
+    [
+      "a face without a value",
+      PACK.replace("[1,2,3,4,5]", '[1,2,3,4,"five"]'),
+      "face 5 has no numeric value",
+    ],
+    [
+      "a bent face",
+      PACK.replace("[[0,1,1],", "[[0,0,0.5],"),
+      "shape face 3 is not flat",
+    ],
+    [
+      "a bad vertex index",
+      PACK.replace("[3,5,4],", "[3,5,9],"),
+      "shape face 2 must list",
+    ],
+    ["a bad color", PACK.replace('"#2266aa"', "blue"), "color must look like"],
+    [
+      "a bad tilt",
+      PACK.replace('"#2266aa"', '"#2266aa"\n    tiltTolerance: 95'),
+      "tiltTolerance must be",
+    ],
+  ])("rejects %s", (_, text, message) => {
+    expect(() => readDicePack(text)).toThrow(DicePackError);
+    expect(() => readDicePack(text)).toThrow(message);
+  });
+});
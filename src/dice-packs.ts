@@ -0,0 +1,404 @@
+import { useCallback, useEffect, useState } from "react";
+import * as THREE from "three";
+import { load as loadYaml } from "js-yaml";
+import {
+  buildFaceGroups,
+  geometryToConvexArgs,
+  isConvex,
+  polyhedronGeometry,
+  type FaceGroup,
+} from "./convex";
+import {
+  canonicalFaceValues,
+  D4,
+  D6,
+  D8,
+  D10,
+  D12,
+  D20,
+  D24,
+  D30,
+  dieType,
+  dieTypes,
+  registerDie,
+  type DieSpec,
+  type DieType,
+} from "./die-types";
+import { loadDicePacks, saveDicePacks } from "./storage";
+
+/**
+ * Declarative homebrew dice. A pack is JSON or YAML:
+ *
+ *   format: teal-dice/dice-pack
+ *   version: 1
+ *   name: Homebrew
+ *   dice:
+ *     - kind: d6star
+ *       shape: d6              # or { vertices: [[x,y,z]...], faces: [[i,j,k]...] }
+ *       faces: [1, 2, 3, 4, 5, { value: 6, label: "★" }]
+ *       color: "#2266aa"
+ *
+ * `faces` lists faces in the standard numbering order (see
+ * `canonicalFaceValues`), so entries i and N-1-i land on opposite faces.
+ */
+export const DICE_PACK_FORMAT = "teal-dice/dice-pack";
+export const DICE_PACK_VERSION = 1;
+
+export type PackFace = number | { value: number; label?: string };
+
+export type PackDie = {
+  kind: string;
+  notation?: string;
+  shape:
+    | BuiltinShape
+    | { vertices: [number, number, number][]; faces: number[][] };
+  faces: PackFace[];
+  color?: string;
+  labelSize?: number;
+  scale?: number;
+  readMode?: "top" | "bottom";
+  /** Degrees off level it may rest at before it's cocked and thrown again. */
+  tiltTolerance?: number;
+};
+
+export type DicePack = {
+  format: typeof DICE_PACK_FORMAT;
+  version: typeof DICE_PACK_VERSION;
+  name: string;
+  dice: PackDie[];
+};
+
+const BUILTIN_SHAPES = {
+  d4: D4,
+  d6: D6,
+  d8: D8,
+  d10: D10,
+  d12: D12,
+  d20: D20,
+  d24: D24,
+  d30: D30,
+};
+type BuiltinShape = keyof typeof BUILTIN_SHAPES;
+
+export class DicePackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DicePackError";
+  }
+}
+
+function parse(text: string): unknown {
+  try {
+    return text.trimStart().startsWith("{") ? JSON.parse(text) : loadYaml(text);
+  } catch (err) {
+    throw new DicePackError(
+      `Could not read the pack: ${(err as Error).message.split("\n")[0]}`,
+    );
+  }
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+
+const isVector = (v: unknown): v is [number, number, number] =>
+  Array.isArray(v) && v.length === 3 && v.every(Number.isFinite);
+
+const isFace = (f: unknown, vertexCount: number): f is number[] =>
+  Array.isArray(f) &&
+  f.length >= 3 &&
+  new Set(f).size === f.length &&
+  f.every((v) => Number.isInteger(v) && v >= 0 && v < vertexCount);
+
+/** Explicit shapes are checked, then scaled to the size of the built-ins. */
+function customGeometry(
+  shape: unknown,
+  fail: (msg: string) => never,
+): THREE.BufferGeometry {
+  const vertices = isRecord(shape) ? shape.vertices : undefined;
+  const faceList = isRecord(shape) ? shape.faces : undefined;
+  if (
+    !Array.isArray(vertices) ||
+    vertices.length < 4 ||
+    !vertices.every(isVector)
+  )
+    fail("shape needs at least 4 vertices of [x, y, z]");
+  if (!Array.isArray(faceList) || faceList.length < 4)
+    fail("shape needs at least 4 faces");
+  const faces = faceList.map((f: unknown, i) => {
+    if (!isFace(f, vertices.length))
+      fail(`shape face ${i + 1} must list 3 or more distinct vertex indices`);
+    const [a, b, c] = f.map((v) => new THREE.Vector3(...vertices[v]));
+    const n = b.clone().sub(a).cross(c.clone().sub(a)).normalize();
+    if (
+      f.some(
+        (v) => Math.abs(n.dot(new THREE.Vector3(...vertices[v]).sub(a))) > 1e-4,
+      )
+    )
+      fail(`shape face ${i + 1} is not flat`);
+    return f;
+  });
+
+  const radius = Math.max(...vertices.map((v) => Math.hypot(...v)));
+  const geom = polyhedronGeometry(
+    vertices.map(
+      (v) => v.map((c) => (c / radius) * 0.9) as [number, number, number],
+    ),
+    faces,
+  );
+  if (!isConvex(geometryToConvexArgs(geom))) fail("shape is not convex");
+  if (buildFaceGroups(geom).groups.length !== faces.length)
+    fail("shape has neighbouring faces that lie in one plane");
+  return geom;
+}
+
+/**
+ * Checks a custom die's kind and notation against the registry and returns
+ * the notation, which defaults to the kind with a leading "d".
+ */
+export function checkDieName(
+  kind: unknown,
+  notation: unknown,
+  pack: string,
+  fail: (msg: string) => never,
+): string {
+  if (typeof kind !== "string" || !/^[a-z][\w-]*$/i.test(kind))
+    fail("kind must be a name like d6star");
+  const name = notation ?? (kind.startsWith("d") ? kind : `d${kind}`);
+  if (typeof name !== "string" || !/^d[a-z0-9]+$/i.test(name))
+    fail('notation must look like "d" followed by letters or digits');
+  const existing = dieType(kind);
+  if (existing && existing.pack !== pack) fail(`kind ${kind} is already taken`);
+  const clash = dieTypes().find(
+    (t) =>
+      t.kind !== kind &&
+      [t.notation, ...(t.aliases ?? [])].some(
+        (n) => n.toLowerCase() === name.toLowerCase(),
+      ),
+  );
+  if (clash) fail(`notation ${name} is already used by ${clash.kind}`);
+  return name;
+}
+
+export type CustomFace = { value: number; label: string };
+
+/** A die with its own geometry and face values, as packs and mesh imports make. */
+export function customDieType({
+  kind,
+  notation,
+  pack,
+  makeGeometry,
+  groupsBuilder,
+  readMode,
+  faces,
+  faceFor,
+  color,
+  labelSize,
+  scale,
+  tiltTolerance,
+}: {
+  kind: string;
+  notation: string;
+  pack: string;
+  makeGeometry: DieSpec["makeGeometry"];
+  groupsBuilder?: DieSpec["groupsBuilder"];
+  readMode?: DieSpec["readMode"];
+  faces: CustomFace[];
+  /** Which of `faces` a face group shows. */
+  faceFor: (g: FaceGroup, all: FaceGroup[]) => CustomFace;
+  color?: string;
+  labelSize?: number;
+  scale?: number;
+  tiltTolerance?: number;
+}): DieType {
+  const values = faces.map((f) => f.value);
+  const spec: DieSpec = {
+    kind,
+    makeGeometry,
+    convex: () => geometryToConvexArgs(makeGeometry()),
+    groupsBuilder,
+    labelForGroup: (g, all) => faceFor(g, all).label,
+    valueForGroup: (g, all) => faceFor(g, all).value,
+    maxValue: Math.max(...values),
+    color: color ?? "#c61732",
+    labelSize: labelSize ?? 0.28,
+    scale: scale ?? 0.85,
+    readMode,
+    tiltTolerance,
+  };
+  const relabeled = faces.some((f) => f.label !== String(f.value));
+  return {
+    kind,
+    notation,
+    range: [Math.min(...values), Math.max(...values)],
+    faces: values,
+    spec,
+    format: relabeled
+      ? (v) => faces.find((f) => f.value === v)?.label ?? String(v)
+      : undefined,
+    pack,
+  };
+}
+
+const isBuiltinShape = (shape: string): shape is BuiltinShape =>
+  Object.prototype.hasOwnProperty.call(BUILTIN_SHAPES, shape);
+
+function buildDie(raw: unknown, where: string, pack: string): DieType {
+  const fail = (msg: string): never => {
+    throw new DicePackError(`${where}: ${msg}`);
+  };
+  if (!isRecord(raw)) return fail("not an object");
+  const { kind } = raw;
+  if (typeof kind !== "string") return fail("kind must be a name like d6star");
+  const notation = checkDieName(kind, raw.notation, pack, fail);
+
+  let base: Pick<DieSpec, "makeGeometry" | "groupsBuilder"> & {
+    readMode?: DieSpec["readMode"];
+  };
+  if (typeof raw.shape === "string") {
+    if (!isBuiltinShape(raw.shape))
+      return fail(
+        `unknown shape ${raw.shape}; use ${Object.keys(BUILTIN_SHAPES).join(
+          ", ",
+        )}`,
+      );
+    const builtin = BUILTIN_SHAPES[raw.shape];
+    // A d4 rests on a face, so a plain pack d4 reads the face underneath
+    base = {
+      makeGeometry: builtin.makeGeometry,
+      groupsBuilder: builtin.groupsBuilder,
+      readMode: builtin.readMode === "vertex" ? "bottom" : builtin.readMode,
+    };
+  } else {
+    const geom = customGeometry(raw.shape, fail);
+    base = { makeGeometry: () => geom.clone() };
+  }
+
+  const geom = base.makeGeometry();
+  const faceCount = (base.groupsBuilder ?? buildFaceGroups)(geom).groups.length;
+  if (!Array.isArray(raw.faces) || raw.faces.length !== faceCount)
+    return fail(
+      `faces must list ${faceCount} entries, one per face of the shape`,
+    );
+  const faces: CustomFace[] = raw.faces.map((f: unknown, i) => {
+    const face: Record<string, unknown> =
+      typeof f === "number" ? { value: f } : isRecord(f) ? f : {};
+    const { value, label } = face;
+    if (typeof value !== "number" || !Number.isFinite(value))
+      return fail(`face ${i + 1} has no numeric value`);
+    if (label !== undefined && typeof label !== "string")
+      return fail(`face ${i + 1} label must be text`);
+    return { value, label: label ?? String(value) };
+  });
+
+  const { color, labelSize, scale, readMode, tiltTolerance } = raw;
+  if (
+    color !== undefined &&
+    (typeof color !== "string" || !/^#[0-9a-f]{6}$/i.test(color))
+  )
+    return fail("color must look like #rrggbb");
+  if (
+    labelSize !== undefined &&
+    !(typeof labelSize === "number" && labelSize > 0)
+  )
+    return fail("labelSize must be positive");
+  if (scale !== undefined && !(typeof scale === "number" && scale > 0))
+    return fail("scale must be positive");
+  if (readMode !== undefined && readMode !== "top" && readMode !== "bottom")
+    return fail("readMode must be top or bottom");
+  if (
+    tiltTolerance !== undefined &&
+    !(
+      typeof tiltTolerance === "number" &&
+      tiltTolerance > 0 &&
+      tiltTolerance < 90
+    )
+  )
+    return fail("tiltTolerance must be between 0 and 90 degrees");
+
+  return customDieType({
+    kind,
+    notation,
+    pack,
+    ...base,
+    readMode: readMode ?? base.readMode,
+    faces,
+    faceFor: (g, all) => faces[(canonicalFaceValues(all).get(g) ?? 1) - 1],
+    color,
+    labelSize,
+    scale,
+    tiltTolerance,
+  });
+}
+
+/** Validates a pack without registering anything. */
+export function readDicePack(text: string): { name: string; dice: DieType[] } {
+  const doc = parse(text);
+  if (!isRecord(doc) || doc.format !== DICE_PACK_FORMAT)
+    throw new DicePackError(
+      `Not a dice pack (format must be ${DICE_PACK_FORMAT}).`,
+    );
+  if (doc.version !== DICE_PACK_VERSION)
+    throw new DicePackError(`Unsupported dice pack version ${doc.version}.`);
+  const name = doc.name;
+  if (typeof name !== "string" || !name.trim())
+    throw new DicePackError("The pack needs a name.");
+  if (!Array.isArray(doc.dice) || doc.dice.length === 0)
+    throw new DicePackError("The pack has no dice.");
+
+  const dice = doc.dice.map((d: unknown, i) =>
+    buildDie(d, `Die ${i + 1}`, name),
+  );
+  const kinds = new Set<string>();
+  const notations = new Set<string>();
+  for (const d of dice) {
+    if (kinds.has(d.kind))
+      throw new DicePackError(`Kind ${d.kind} appears twice.`);
+    if (notations.has(d.notation.toLowerCase()))
+      throw new DicePackError(`Notation ${d.notation} appears twice.`);
+    kinds.add(d.kind);
+    notations.add(d.notation.toLowerCase());
+  }
+  return { name, dice };
+}
+
+/** Validates and registers a pack's dice; throws DicePackError when invalid. */
+export function installDicePack(text: string) {
+  const pack = readDicePack(text);
+  pack.dice.forEach(registerDie);
+  return pack;
+}
+
+/**
+ * Reinstalls the packs saved in this browser and imports new ones. `version`
+ * changes whenever dice were added, for anything listing `dieTypes()`.
+ * `addDie` registers a one-off custom die (a mesh import) for this session.
+ */
+export function useDicePacks() {
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    for (const text of Object.values(loadDicePacks())) {
+      try {
+        installDicePack(text);
+      } catch (err) {
+        // A saved pack that no longer validates is skipped, not fatal
+        if (!(err instanceof DicePackError)) throw err;
+      }
+    }
+    setVersion((v) => v + 1);
+  }, []);
+
+  const importPack = useCallback((text: string) => {
+    const pack = installDicePack(text);
+    saveDicePacks({ ...loadDicePacks(), [pack.name]: text });
+    setVersion((v) => v + 1);
+    return pack;
+  }, []);
+
+  const addDie = useCallback((type: DieType) => {
+    registerDie(type);
+    setVersion((v) => v + 1);
+  }, []);
+
+  return { version, importPack, addDie };
+}
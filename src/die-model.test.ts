@@ -0,0 +1,90 @@
+import * as THREE from "three";
+import { describe, expect, it } from "vitest";
+import {
+  createFaceReader,
+  createSettleWatch,
+  dieModel,
+  SETTLE_MS,
+} from "./die-model";
+import { D4, D20 } from "./die-types";
+
+const UP = new THREE.Vector3(0, 1, 0);
+const DOWN = new THREE.Vector3(0, -1, 0);
+
+/** Body quaternion that turns the local direction `v` to face `to`. */
+function turning(v: THREE.Vector3, to: THREE.Vector3) {
+  const [x, y, z, w] = new THREE.Quaternion()
+    .setFromUnitVectors(v.clone().normalize(), to)
+    .toArray();
+  return [x, y, z, w] as const;
+}
+
+describe("createFaceReader", () => {
+  const { groups } = dieModel(D20);
+
+  it("reads the face turned up", () => {
+    const read = createFaceReader(groups, [], "top");
+    const highest = groups.reduce(
+      (a, g, i) => (g.normal.y > groups[a].normal.y ? i : a),
+      0,
+    );
+    expect(read([0, 0, 0, 1])).toBe(highest);
+    groups.forEach((g, i) => expect(read(turning(g.normal, UP))).toBe(i));
+  });
+
+  it("reads the face turned down for bottom-read dice", () => {
+    const read = createFaceReader(groups, [], "bottom");
+    groups.forEach((g, i) => expect(read(turning(g.normal, DOWN))).toBe(i));
+  });
+
+  it("reads the corner turned up for vertex-read dice", () => {
+    const { groups: faces, corners } = dieModel(D4);
+    const read = createFaceReader(faces, corners, "vertex");
+    expect(corners).toHaveLength(4);
+    corners.forEach((c, i) => expect(read(turning(c, UP))).toBe(i));
+  });
+});
+
+describe("createSettleWatch", () => {
+  const still = [0, 0, 0] as const;
+  const level = [0, 0, 0, 1] as const;
+
+  /** Feeds the watch every 10ms from `from` to `to`; what it reported, and when. */
+  function feed(
+    watch: ReturnType<typeof createSettleWatch>,
+    from: number,
+    to: number,
+    velocity: readonly [number, number, number] = still,
+    spin: readonly [number, number, number] = still,
+  ) {
+    const reports: [number, number][] = [];
+    for (let t = from; t < to; t += 10) {
+      const slot = watch.update(t, level, velocity, spin);
+      if (slot !== null) reports.push([t, slot]);
+    }
+    return reports;
+  }
+
+  it("reports a resting die once, after SETTLE_MS", () => {
+    const watch = createSettleWatch(() => 7);
+    expect(feed(watch, 0, 2000)).toEqual([[SETTLE_MS, 7]]);
+  });
+
+  it("doesn't report a die spinning in place", () => {
+    const watch = createSettleWatch(() => 7);
+    expect(feed(watch, 0, 2000, [0.05, 0, 0], [0, 2, 0])).toEqual([]);
+  });
+
+  it("waits the full SETTLE_MS after the die last moved", () => {
+    const watch = createSettleWatch(() => 7);
+    expect(feed(watch, 0, 1000, [3, 0, 0])).toEqual([]);
+    expect(feed(watch, 1000, 2000)).toEqual([[1000 + SETTLE_MS, 7]]);
+  });
+
+  it("starts over after a reset", () => {
+    const watch = createSettleWatch(() => 7);
+    expect(feed(watch, 0, 1000)).toHaveLength(1);
+    watch.reset();
+    expect(feed(watch, 1000, 2000)).toEqual([[1000 + SETTLE_MS, 7]]);
+  });
+});
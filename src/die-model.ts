@@ -0,0 +1,151 @@
+import * as THREE from "three";
+import { buildCorners, buildFaceGroups, type FaceGroup } from "./convex";
+import type { DieSpec } from "./die-types";
+
+/** A die is at rest while slower than this (units/s)... */
+export const SETTLE_SPEED = 0.12;
+/** ...and turning slower than this (rad/s)... */
+export const SETTLE_SPIN = 0.5;
+/** ...and it reads once it has rested on the same slot this long (ms). */
+export const SETTLE_MS = 300;
+
+type Quaternion = readonly [number, number, number, number];
+type Vector = readonly [number, number, number];
+
+/**
+ * Scaled geometry and face groups for a spec, plus its corners when it is
+ * read by vertex. The geometry's hull is the die's physics body.
+ */
+export function dieModel(spec: DieSpec) {
+  const scaledGeom = spec.makeGeometry().clone();
+  const s = spec.scale ?? 1;
+  if (s !== 1) scaledGeom.scale(s, s, s);
+  scaledGeom.computeBoundingSphere();
+
+  const { groups, triToGroup } = spec.groupsBuilder
+    ? spec.groupsBuilder(scaledGeom)
+    : buildFaceGroups(scaledGeom);
+  const corners = spec.readMode === "vertex" ? buildCorners(scaledGeom) : [];
+  return { scaledGeom, groups, triToGroup, corners };
+}
+
+/** Tilt, in degrees, a die rests at before it counts as cocked. */
+export const DEFAULT_TILT_TOLERANCE = 15;
+/** A cocked die still leaning this long after it read is set straight (ms). */
+export const COCKED_MS = 700;
+
+/**
+ * Unit vectors, in the die's own frame, that point straight up when each
+ * slot shows: face normals (flipped for `readMode: "bottom"`), or corners.
+ */
+function slotDirections(
+  groups: FaceGroup[],
+  corners: THREE.Vector3[],
+  readMode: DieSpec["readMode"],
+) {
+  if (readMode === "vertex") return corners.map((c) => c.clone().normalize());
+  const sign = readMode === "bottom" ? -1 : 1;
+  return groups.map((g) => g.normal.clone().multiplyScalar(sign));
+}
+
+/** The rotation matrix's middle row: dotted with a local vector, how far up it points. */
+function upRow([x, y, z, w]: Quaternion): Vector {
+  return [2 * (x * y + w * z), 1 - 2 * (x * x + z * z), 2 * (y * z - w * x)];
+}
+
+/**
+ * Reads which slot of a die is showing, given its body quaternion: the face
+ * group whose normal points closest to up (down for `readMode: "bottom"`),
+ * or the corner pointing furthest up for vertex-read dice. Shared by the
+ * tray and the headless fairness harness so both read dice the same way.
+ */
+export function createFaceReader(
+  groups: FaceGroup[],
+  corners: THREE.Vector3[],
+  readMode: DieSpec["readMode"],
+): (quaternion: Quaternion) => number {
+  const slots = slotDirections(groups, corners, readMode);
+  return (quaternion) => {
+    const [ux, uy, uz] = upRow(quaternion);
+    let best = 0;
+    let bestUp = -Infinity;
+    for (let i = 0; i < slots.length; i++) {
+      const up = slots[i].x * ux + slots[i].y * uy + slots[i].z * uz;
+      if (up > bestUp) {
+        bestUp = up;
+        best = i;
+      }
+    }
+    return best;
+  };
+}
+
+/**
+ * Whether a die resting on `slot` is cocked: leaning further off level than
+ * its spec's `tiltTolerance`, or lying on a face that shows no result.
+ */
+export function createCockedCheck(
+  spec: DieSpec,
+  groups: FaceGroup[],
+  corners: THREE.Vector3[],
+): (slot: number, quaternion: Quaternion) => boolean {
+  const slots = slotDirections(groups, corners, spec.readMode);
+  const minUp = Math.cos(
+    THREE.MathUtils.degToRad(spec.tiltTolerance ?? DEFAULT_TILT_TOLERANCE),
+  );
+  return (slot, quaternion) => {
+    if (
+      spec.cocksOn &&
+      !spec.valueForCorner &&
+      spec.cocksOn(groups[slot], groups)
+    )
+      return true;
+    const [ux, uy, uz] = upRow(quaternion);
+    const d = slots[slot];
+    return d.x * ux + d.y * uy + d.z * uz < minUp;
+  };
+}
+
+/**
+ * Follows a die's body state as the physics reports it. `update` returns
+ * the slot the die came to rest on, once per rest: when it has been below
+ * both settle speeds, showing that slot, for SETTLE_MS. Moving faster
+ * restarts the wait; turning to another slot, or `reset`, starts over.
+ */
+export function createSettleWatch(
+  readSlot: (quaternion: Quaternion) => number,
+) {
+  let slot = -1;
+  let since = 0;
+  let reported = false;
+  return {
+    update(
+      now: number,
+      quaternion: Quaternion,
+      velocity: Vector,
+      spin: Vector,
+    ): number | null {
+      // A die still sliding or turning on one slot hasn't rested on it yet
+      if (
+        Math.hypot(...velocity) > SETTLE_SPEED ||
+        Math.hypot(...spin) > SETTLE_SPIN
+      ) {
+        since = now;
+        return null;
+      }
+      const showing = readSlot(quaternion);
+      if (showing !== slot) {
+        slot = showing;
+        since = now;
+        reported = false;
+        return null;
+      }
+      if (reported || now - since < SETTLE_MS) return null;
+      reported = true;
+      return slot;
+    },
+    reset() {
+      slot = -1;
+    },
+  };
+}
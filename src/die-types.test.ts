@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { dieModel } from "./die-model";
+import { D20, dieTypes } from "./die-types";
+
+/** Face groups on directly opposite sides of the die, each pair once. */
+function oppositePairs(groups: ReturnType<typeof dieModel>["groups"]) {
+  return groups.flatMap((g, i) =>
+    groups
+      .slice(i + 1)
+      .filter((h) => h.normal.dot(g.normal) < -0.99)
+      .map((h) => [g, h] as const),
+  );
+}
+
+describe("face numbering", () => {
+  it.each(
+    dieTypes()
+      .filter((t) => t.spec)
+      .map((t) => [t.kind, t] as const),
+  )("opposite faces of a %s sum to its lowest plus highest value", (_, t) => {
+    const spec = t.spec!;
+    const { groups } = dieModel(spec);
+    // Rims and the like show no result, so they have nothing to sum
+    const faces = groups.filter((g) => !spec.cocksOn?.(g, groups));
+    const pairs = oppositePairs(faces);
+    // A d4 has no face across from another; it is read by its corners
+    if (spec.readMode !== "vertex") expect(pairs.length * 2).toBe(faces.length);
+    const [lo, hi] = t.range;
+    for (const [g, h] of pairs)
+      expect(
+        spec.valueForGroup(g, groups) + spec.valueForGroup(h, groups),
+      ).toBe(lo + hi);
+  });
+
+  it("puts 20 opposite 1 on the d20", () => {
+    const { groups } = dieModel(D20);
+    const one = groups.find((g) => D20.valueForGroup(g, groups) === 1)!;
+    const across = groups.find((g) => g.normal.dot(one.normal) < -0.99)!;
+    expect(D20.valueForGroup(across, groups)).toBe(20);
+  });
+});
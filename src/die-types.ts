@@ -1,19 +1,34 @@
 import * as THREE from "three";
 import {
+  buildCorners,
+  convexHullGeometry,
   ConvexArgs,
   geometryToConvexArgs,
   FaceGroup,
   getIndexArray,
 } from "@/convex";
+import type { SymbolDef, SymbolFaces } from "./symbols";
 
-export type DieKind = "d4" | "d6" | "d8" | "d10" | "d12" | "d20" | "d100";
-export type InternalKind = DieKind | "d10_tens" | "d10_units";
+/** Any registered kind, e.g. "d6" or "dF"; see `registerDie`. */
+export type DieKind = string;
+/** A die kind, or the tens/units halves a d100 is thrown as. */
+export type InternalKind = DieKind;
 
 export type GroupsBuilder = (geom: THREE.BufferGeometry) => {
   groups: FaceGroup[];
   triToGroup: Uint16Array;
 };
 
+/**
+ * One label printed on a face; `toward` puts it by that corner, facing it.
+ * Symbol dice print a row of `symbols` instead of text.
+ */
+export type FaceLabel = {
+  text: string;
+  toward?: THREE.Vector3;
+  symbols?: SymbolDef[];
+};
+
 export type DieSpec = {
   kind: InternalKind;
   makeGeometry: () => THREE.BufferGeometry;
@@ -25,7 +40,22 @@ export type DieSpec = {
   color?: string;
   labelSize?: number;
   groupsBuilder?: GroupsBuilder;
-  readMode?: "top" | "bottom";
+  /**
+   * What shows the result: the face pointing up or down, or (with
+   * `valueForCorner`) the corner pointing up.
+   */
+  readMode?: "top" | "bottom" | "vertex";
+  /** Vertex-read dice: each face is labelled with the values of its corners. */
+  valueForCorner?: (c: THREE.Vector3, all: THREE.Vector3[]) => number;
+  /** Symbol dice: what each face shows; `valueForGroup` is then its number. */
+  symbolsForGroup?: (g: FaceGroup, all: FaceGroup[]) => SymbolDef[];
+  /**
+   * Degrees the face (or corner) showing may lean off straight up before
+   * the die counts as cocked; DEFAULT_TILT_TOLERANCE in die-model.ts if unset.
+   */
+  tiltTolerance?: number;
+  /** Faces that leave the die cocked however level they lie, e.g. a rim. */
+  cocksOn?: (g: FaceGroup, all: FaceGroup[]) => boolean;
 };
 
 const geomD4 = () => new THREE.TetrahedronGeometry(0.75);
@@ -34,6 +64,48 @@ const geomD8 = () => new THREE.OctahedronGeometry(0.9);
 const geomD12 = () => new THREE.DodecahedronGeometry(0.95);
 const geomD20 = () => new THREE.IcosahedronGeometry(1.1);
 
+const PHI = (1 + Math.sqrt(5)) / 2;
+
+/** Every sign combination of `p`, with each cyclic permutation of its axes. */
+function symmetricPoints(p: [number, number, number], cyclic = true) {
+  const out: THREE.Vector3[] = [];
+  const perms = cyclic ? [p, [p[1], p[2], p[0]], [p[2], p[0], p[1]]] : [p];
+  for (const [x, y, z] of perms)
+    for (const sx of x ? [1, -1] : [1])
+      for (const sy of y ? [1, -1] : [1])
+        for (const sz of z ? [1, -1] : [1])
+          out.push(new THREE.Vector3(x * sx, y * sy, z * sz));
+  return out;
+}
+
+// Coin: a flat 16-sided prism; its rim faces are too thin to rest on
+const geomD2 = () =>
+  convexHullGeometry(
+    Array.from({ length: 32 }, (_, i) => {
+      const a = ((i % 16) * Math.PI * 2) / 16;
+      return new THREE.Vector3(
+        Math.cos(a) * 0.7,
+        i < 16 ? 0.07 : -0.07,
+        Math.sin(a) * 0.7,
+      );
+    }),
+  );
+
+// Tetrakis hexahedron: a cube with a low pyramid on every face
+const geomD24 = () =>
+  convexHullGeometry([
+    ...symmetricPoints([1, 1, 1], false),
+    ...symmetricPoints([1.5, 0, 0]),
+  ]).scale(0.62, 0.62, 0.62);
+
+// Rhombic triacontahedron: icosahedron and dodecahedron vertices together
+const geomD30 = () =>
+  convexHullGeometry([
+    ...symmetricPoints([0, 1, PHI]),
+    ...symmetricPoints([1, 1, 1], false),
+    ...symmetricPoints([0, PHI, 1 / PHI]),
+  ]).scale(0.58, 0.58, 0.58);
+
 function orientTrianglesOutward(g: THREE.BufferGeometry) {
   const pos = g.getAttribute("position") as THREE.BufferAttribute;
 
@@ -130,6 +202,9 @@ function geomD10_TealFull(): THREE.BufferGeometry {
   return g;
 }
 
+// Each kite is an apex triangle plus the belt triangle sharing its ring
+// edge. Matched by vertex position: the geometry's index is per-vertex, so
+// it says nothing about which ring vertex is which.
 const buildD10Groups_Teal: GroupsBuilder = (geom) => {
   const pos = geom.getAttribute("position") as THREE.BufferAttribute;
   const index = getIndexArray(geom);
@@ -137,67 +212,44 @@ const buildD10Groups_Teal: GroupsBuilder = (geom) => {
   if (triCount !== 20)
     throw new Error("D10 should have 20 triangles (10 apex + 10 belt).");
 
-  const ringN = 10;
-  const apexBot = 10;
-  const apexTop = 11;
-
-  const keyForPair = (a: number, b: number) => {
-    const i = (a + ringN) % ringN,
-      j = (b + ringN) % ringN;
-    const [x, y] = i < j ? [i, j] : [j, i];
-    return `${x}_${y}`;
-  };
+  let apexZ = 0;
+  for (let i = 0; i < pos.count; i++)
+    apexZ = Math.max(apexZ, Math.abs(pos.getZ(i)));
+  const isApex = (vi: number) => Math.abs(pos.getZ(vi)) > apexZ * 0.99;
+  const keyForVertex = (vi: number) =>
+    [pos.getX(vi), pos.getY(vi), pos.getZ(vi)]
+      .map((c) => Math.round(c * 1e4))
+      .join(",");
+  const keyForEdge = (a: number, b: number) =>
+    [keyForVertex(a), keyForVertex(b)].sort().join("|");
 
   const groups: FaceGroup[] = [];
   const triToGroup = new Uint16Array(triCount).fill(0xffff);
-  const keyToIndex = new Map<string, number>();
-
-  const addTriToGroup = (t: number, key: string) => {
-    let gi = keyToIndex.get(key);
-    if (gi === undefined) {
-      gi = groups.length;
-      keyToIndex.set(key, gi);
-      groups.push({
-        center: new THREE.Vector3(),
-        normal: new THREE.Vector3(),
-        triIndices: [],
-      });
-    }
-    triToGroup[t] = gi;
-    groups[gi].triIndices!.push(t);
-  };
+  const edgeToGroup = new Map<string, number>();
+  const tri = (t: number) => [0, 1, 2].map((k) => index[t * 3 + k]);
 
   for (let t = 0; t < triCount; t++) {
-    const i0 = index[t * 3 + 0],
-      i1 = index[t * 3 + 1],
-      i2 = index[t * 3 + 2];
-    const tri = [i0, i1, i2];
-
-    const hasApex = tri.includes(apexTop) || tri.includes(apexBot);
-    if (hasApex) {
-      const ringVerts = tri.filter((v) => v < ringN);
-      const key = keyForPair(ringVerts[0], ringVerts[1]);
-      addTriToGroup(t, key);
-    }
+    const vs = tri(t);
+    if (!vs.some(isApex)) continue;
+    const [a, b] = vs.filter((v) => !isApex(v));
+    edgeToGroup.set(keyForEdge(a, b), groups.length);
+    triToGroup[t] = groups.length;
+    groups.push({
+      center: new THREE.Vector3(),
+      normal: new THREE.Vector3(),
+      triIndices: [t],
+    });
   }
 
   for (let t = 0; t < triCount; t++) {
     if (triToGroup[t] !== 0xffff) continue;
-    const i0 = index[t * 3 + 0],
-      i1 = index[t * 3 + 1],
-      i2 = index[t * 3 + 2];
-
-    const pairs: [number, number][] = [
-      [i0, i1],
-      [i1, i2],
-      [i2, i0],
-    ].filter(
-      ([a, b]) =>
-        Math.abs(a - b) % ringN === 2 || Math.abs(a - b) % ringN === 8,
-    ) as [number, number][];
-    const [a, b] = pairs[0];
-    const key = keyForPair(a, b);
-    addTriToGroup(t, key);
+    const [i0, i1, i2] = tri(t);
+    const gi = [keyForEdge(i0, i1), keyForEdge(i1, i2), keyForEdge(i2, i0)]
+      .map((k) => edgeToGroup.get(k))
+      .find((g) => g !== undefined);
+    if (gi === undefined) throw new Error("D10 belt triangle has no kite.");
+    triToGroup[t] = gi;
+    groups[gi].triIndices!.push(t);
   }
 
   const A = new THREE.Vector3(),
@@ -236,31 +288,108 @@ const buildD10Groups_Teal: GroupsBuilder = (geom) => {
   return { groups, triToGroup };
 };
 
-function byIndex(color: string, labelSize: number) {
+const valueCache = new WeakMap<FaceGroup[], Map<FaceGroup, number>>();
+
+/** Orders normals by height, then x, then z, so ties break the same way. */
+const compareNormals = (a: THREE.Vector3, b: THREE.Vector3) =>
+  Math.abs(a.y - b.y) > 1e-4
+    ? b.y - a.y
+    : Math.abs(a.x - b.x) > 1e-4
+    ? b.x - a.x
+    : b.z - a.z;
+
+/**
+ * Face values 1..N derived from the face normals alone, so they don't depend
+ * on the order `buildFaceGroups` found the faces in. Opposite faces always
+ * sum to N+1: the uppermost face is 1, low values then spiral to the nearest
+ * free face, and each face's antipode takes the matching high value.
+ */
+export function canonicalFaceValues(all: FaceGroup[]): Map<FaceGroup, number> {
+  const cached = valueCache.get(all);
+  if (cached) return cached;
+
+  const opposite = new Map<FaceGroup, FaceGroup>();
+  for (const g of all) {
+    let best: FaceGroup | undefined;
+    for (const h of all)
+      if (
+        h !== g &&
+        (!best || h.normal.dot(g.normal) < best.normal.dot(g.normal))
+      )
+        best = h;
+    if (best && best.normal.dot(g.normal) < -0.99) opposite.set(g, best);
+  }
+
+  const values = new Map<FaceGroup, number>();
+  let lo = 1;
+  let hi = all.length;
+  let prev: FaceGroup | undefined;
+  while (values.size < all.length) {
+    const free = all.filter((g) => !values.has(g));
+    const from = prev;
+    const next = free.sort((a, b) => {
+      if (from) {
+        const d = b.normal.dot(from.normal) - a.normal.dot(from.normal);
+        if (Math.abs(d) > 1e-4) return d;
+      }
+      return compareNormals(a.normal, b.normal);
+    })[0];
+    values.set(next, lo++);
+    const anti = opposite.get(next);
+    if (anti && !values.has(anti)) values.set(anti, hi--);
+    prev = next;
+  }
+
+  valueCache.set(all, values);
+  return values;
+}
+
+function numbered(
+  color: string,
+  labelSize: number,
+  toValue: (canonical: number) => number = (v) => v,
+  toLabel: (value: number) => string = String,
+) {
+  const valueOf = (g: FaceGroup, all: FaceGroup[]) =>
+    toValue(canonicalFaceValues(all).get(g) ?? 0);
   return {
-    labelForGroup: (_g: FaceGroup, all: FaceGroup[]) =>
-      String(all.indexOf(_g) + 1),
-    valueForGroup: (_g: FaceGroup, all: FaceGroup[]) => all.indexOf(_g) + 1,
+    labelForGroup: (g: FaceGroup, all: FaceGroup[]) => toLabel(valueOf(g, all)),
+    valueForGroup: valueOf,
     color,
     labelSize,
   };
 }
 
+const d4CornerValue = (c: THREE.Vector3, all: THREE.Vector3[]) =>
+  [...all].sort(compareNormals).indexOf(c) + 1;
+
 export const D4: DieSpec = {
   kind: "d4",
   makeGeometry: geomD4,
   convex: () => geometryToConvexArgs(geomD4()),
-  ...byIndex("#c61732", 0.33),
+  // A face's own value is the corner across from it, i.e. the one on top
+  // when that face is down
+  labelForGroup: (g, all) => String(D4.valueForGroup(g, all)),
+  valueForGroup: (g) => {
+    const corners = buildCorners(geomD4());
+    const across = corners.reduce((a, b) =>
+      b.dot(g.normal) < a.dot(g.normal) ? b : a,
+    );
+    return d4CornerValue(across, corners);
+  },
+  valueForCorner: d4CornerValue,
+  color: "#c61732",
+  labelSize: 0.2,
   maxValue: 4,
   scale: 0.85,
-  readMode: "bottom",
+  readMode: "vertex",
 };
 
 export const D6: DieSpec = {
   kind: "d6",
   makeGeometry: geomD6,
   convex: () => geometryToConvexArgs(geomD6()),
-  ...byIndex("#c61732", 0.36),
+  ...numbered("#c61732", 0.36),
   maxValue: 6,
   scale: 0.85,
 };
@@ -269,7 +398,7 @@ export const D8: DieSpec = {
   kind: "d8",
   makeGeometry: geomD8,
   convex: () => geometryToConvexArgs(geomD8()),
-  ...byIndex("#c61732", 0.3),
+  ...numbered("#c61732", 0.3),
   maxValue: 8,
   scale: 0.85,
 };
@@ -278,7 +407,7 @@ export const D12: DieSpec = {
   kind: "d12",
   makeGeometry: geomD12,
   convex: () => geometryToConvexArgs(geomD12()),
-  ...byIndex("#c61732", 0.28),
+  ...numbered("#c61732", 0.28),
   maxValue: 12,
   scale: 0.85,
 };
@@ -287,7 +416,7 @@ export const D20: DieSpec = {
   kind: "d20",
   makeGeometry: geomD20,
   convex: () => geometryToConvexArgs(geomD20()),
-  ...byIndex("#c61732", 0.26),
+  ...numbered("#c61732", 0.26),
   maxValue: 20,
   scale: 0.85,
 };
@@ -296,7 +425,7 @@ export const D10: DieSpec = {
   kind: "d10",
   makeGeometry: () => geomD10_TealFull(),
   convex: () => geometryToConvexArgs(geomD10_TealFull()),
-  ...byIndex("#c61732", 0.3),
+  ...numbered("#c61732", 0.3),
   maxValue: 10,
   scale: 0.85,
   groupsBuilder: buildD10Groups_Teal,
@@ -306,11 +435,13 @@ export const D10_TENS: DieSpec = {
   kind: "d10_tens",
   makeGeometry: () => geomD10_TealFull(),
   convex: () => geometryToConvexArgs(geomD10_TealFull()),
-  labelForGroup: (_g, all) =>
-    String((all.indexOf(_g) % 10) * 10).padStart(2, "0"),
-  valueForGroup: (_g, all) => (all.indexOf(_g) % 10) * 10,
-  color: "#c61732",
-  labelSize: 0.28,
+  // Percentile faces read 00–90; opposite faces sum to 90
+  ...numbered(
+    "#c61732",
+    0.28,
+    (v) => (v - 1) * 10,
+    (v) => String(v).padStart(2, "0"),
+  ),
   maxValue: 100,
   scale: 0.82,
   groupsBuilder: buildD10Groups_Teal,
@@ -320,11 +451,145 @@ export const D10_UNITS: DieSpec = {
   kind: "d10_units",
   makeGeometry: () => geomD10_TealFull(),
   convex: () => geometryToConvexArgs(geomD10_TealFull()),
-  labelForGroup: (_g, all) => String(all.indexOf(_g) % 10),
-  valueForGroup: (_g, all) => all.indexOf(_g) % 10,
-  color: "#c61732",
-  labelSize: 0.28,
+  // 0–9 with opposite faces summing to 9, like a real percentile d10
+  ...numbered("#c61732", 0.28, (v) => v - 1),
   maxValue: 10,
   scale: 0.82,
   groupsBuilder: buildD10Groups_Teal,
 };
+
+export const D2: DieSpec = {
+  kind: "d2",
+  makeGeometry: geomD2,
+  convex: () => geometryToConvexArgs(geomD2()),
+  // Only the two caps carry a value; the rim is blank
+  labelForGroup: (g, all) => {
+    const v = D2.valueForGroup(g, all);
+    return v ? String(v) : "";
+  },
+  valueForGroup: (g) => (g.normal.y > 0.9 ? 1 : g.normal.y < -0.9 ? 2 : 0),
+  cocksOn: (g, all) => !D2.valueForGroup(g, all),
+  color: "#c61732",
+  labelSize: 0.5,
+  maxValue: 2,
+  scale: 0.85,
+};
+
+export const D3: DieSpec = {
+  ...D6,
+  kind: "d3",
+  // A d6 numbered 1–3 twice
+  ...numbered("#c61732", 0.36, (v) => ((v - 1) % 3) + 1),
+  maxValue: 3,
+};
+
+const fateLabel = (v: number) => (v > 0 ? "+" : v < 0 ? "−" : "");
+
+export const DF: DieSpec = {
+  ...D6,
+  kind: "dF",
+  // Fudge/Fate: −, blank and + twice each, + opposite −
+  ...numbered("#c61732", 0.6, (v) => ((v - 1) % 3) - 1, fateLabel),
+  maxValue: 1,
+};
+
+export const D24: DieSpec = {
+  kind: "d24",
+  makeGeometry: geomD24,
+  convex: () => geometryToConvexArgs(geomD24()),
+  ...numbered("#c61732", 0.2),
+  maxValue: 24,
+  scale: 0.85,
+};
+
+export const D30: DieSpec = {
+  kind: "d30",
+  makeGeometry: geomD30,
+  convex: () => geometryToConvexArgs(geomD30()),
+  ...numbered("#c61732", 0.2),
+  maxValue: 30,
+  scale: 0.85,
+};
+
+/** A die the toolbar, notation and room rolls know about. */
+export type DieType = {
+  kind: DieKind;
+  /** How it's written after the count in notation, e.g. "d6" in "2d6". */
+  notation: string;
+  aliases?: string[];
+  /**
+   * Inclusive range rolls draw from. Server rolls only know the ranges in
+   * FACE_RANGES in server.js; other kinds send `faces` instead.
+   */
+  range: [number, number];
+  /** Custom dice: every face's value, which server rolls pick one of. */
+  faces?: number[];
+  /** The thrown die; d100 has none, it's thrown as a tens/units pair. */
+  spec?: DieSpec;
+  /** How a rolled value is written in results; defaults to the number. */
+  format?: (value: number) => string;
+  /** Symbol dice: the value is a face number and counts for nothing in totals. */
+  symbols?: SymbolFaces;
+  /** Name of the dice pack that added it; built-ins have none. */
+  pack?: string;
+};
+
+const registry = new Map<DieKind, DieType>();
+
+/** Adds (or replaces) a die kind; the toolbar lists kinds in this order. */
+export function registerDie(type: DieType) {
+  registry.set(type.kind, type);
+}
+
+export function dieTypes(): DieType[] {
+  return Array.from(registry.values());
+}
+
+export function dieType(kind: DieKind): DieType | undefined {
+  return registry.get(kind);
+}
+
+/** Whether a kind's values add up, i.e. it isn't a symbol die. */
+export function isNumericDie(kind: DieKind): boolean {
+  return !dieType(kind)?.symbols;
+}
+
+export function formatDieValue(kind: DieKind, value: number): string {
+  return dieType(kind)?.format?.(value) ?? String(value);
+}
+
+/** Rolled values as read out: "3 + 5", or "+ − 0" once symbols are involved. */
+export function formatDiceValues(dice: { kind: DieKind; value: number }[]) {
+  const symbolic = dice.some((d) => dieType(d.kind)?.format);
+  return dice
+    .map((d) => formatDieValue(d.kind, d.value))
+    .join(symbolic ? " " : " + ");
+}
+
+for (const spec of [D2, D3, D4, D6, D8, D10, D12, D20, D24, D30])
+  registerDie({
+    kind: spec.kind,
+    notation: spec.kind,
+    range: [1, spec.maxValue],
+    spec,
+  });
+registerDie({
+  kind: "dF",
+  notation: "dF",
+  range: [-1, 1],
+  spec: DF,
+  format: (v) => (v > 0 ? "+" : v < 0 ? "−" : "0"),
+});
+registerDie({
+  kind: "d100",
+  notation: "d100",
+  aliases: ["d%"],
+  range: [1, 100],
+});
+
+/** Spec of a die that exists in the tray; d100 is only ever a tens/units pair. */
+export function specForKind(kind: InternalKind): DieSpec | undefined {
+  if (kind === D10_TENS.kind) return D10_TENS;
+  if (kind === D10_UNITS.kind) return D10_UNITS;
+  return dieType(kind)?.spec;
+}
@@ -0,0 +1,110 @@
+import { dieType, type DieKind } from "./die-types";
+
+/**
+ * Browser half of the commit-reveal scheme in server/fair.js. The two must
+ * derive identical faces from the same seeds.
+ */
+
+/**
+ * The face a fraction in [0, 1) picks: by range as in FACE_RANGES in
+ * server.js, or from the face values a custom die was rolled with.
+ */
+function faceFor(
+  kind: DieKind,
+  fraction: number,
+  faces: FairReveal["faces"],
+): number {
+  const values = faces?.[kind] ?? dieType(kind)?.faces;
+  if (values) return values[Math.floor(fraction * values.length)];
+  const type = dieType(kind);
+  if (!type) throw new Error(`Unknown die kind "${kind}".`);
+  const [min, max] = type.range;
+  return Math.floor(fraction * (max - min + 1)) + min;
+}
+
+export type FairReveal = {
+  commitId: string;
+  commitment: string;
+  serverSeed: string;
+  clientSeed: string;
+  /** Face values of the custom dice in the roll, as the server drew from. */
+  faces?: Record<DieKind, number[]>;
+};
+
+/**
+ * "unavailable" when this browser couldn't run the check at all, e.g. on a
+ * plain-http page, where there's no WebCrypto.
+ */
+export type FairStatus = "checking" | "verified" | "failed" | "unavailable";
+
+const toHex = (buf: ArrayBuffer) =>
+  Array.from(new Uint8Array(buf), (b) => b.toString(16).padStart(2, "0")).join(
+    "",
+  );
+
+const fromHex = (hex: string) =>
+  new Uint8Array((hex.match(/../g) ?? []).map((b) => parseInt(b, 16)));
+
+export function createClientSeed(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return toHex(bytes.buffer);
+}
+
+export async function commitmentFor(serverSeed: string): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", fromHex(serverSeed)));
+}
+
+export async function deriveResults(
+  serverSeed: string,
+  clientSeed: string,
+  set: DieKind[],
+  faces?: FairReveal["faces"],
+): Promise<number[]> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    fromHex(serverSeed),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const encoder = new TextEncoder();
+  return Promise.all(
+    set.map(async (kind, i) => {
+      const mac = await crypto.subtle.sign(
+        "HMAC",
+        key,
+        encoder.encode(`${clientSeed}:${i}:${kind}`),
+      );
+      const b = new Uint8Array(mac);
+      let n = 0;
+      for (let k = 0; k < 6; k++) n = n * 256 + b[k];
+      return faceFor(kind, n / 2 ** 48, faces);
+    }),
+  );
+}
+
+/**
+ * Checks a revealed roll: the seed must hash to the commitment published
+ * before the roll, and re-deriving the faces must give the same results.
+ */
+export async function verifyFairRoll(
+  reveal: FairReveal,
+  publishedCommitment: string,
+  set: DieKind[],
+  results: number[],
+): Promise<boolean> {
+  if (reveal.commitment !== publishedCommitment) return false;
+  if ((await commitmentFor(reveal.serverSeed)) !== publishedCommitment)
+    return false;
+  const derived = await deriveResults(
+    reveal.serverSeed,
+    reveal.clientSeed,
+    set,
+    reveal.faces,
+  );
+  return (
+    derived.length === results.length &&
+    derived.every((v, i) => v === results[i])
+  );
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import type { HistoryEntry } from "./history";
+import {
+  exportHistoryCSV,
+  exportHistoryJSON,
+  HistoryImportError,
+  importHistory,
+} from "./history-io";
+
+const POOL: HistoryEntry = {
+  id: "roll-1",
+  at: Date.parse("2024-05-01T12:00:00Z"),
+  by: "Ada",
+  color: "#AA3300",
+  room: "room-ab12cd",
+  notation: "5d10",
+  dice: [3, 8, 10, 1, 7].map((value) => ({ kind: "d10", value })),
+  modifier: 0,
+  total: 29,
+  authoritative: true,
+  outcome: "3 successes",
+  reading: { preset: "successes", target: 7 },
+  check: { mode: "normal", dc: 2 },
+  step: { of: "roll-0", number: 2, held: [{ kind: "d10", value: 10 }] },
+  waves: [
+    {
+      rollId: "r-1",
+      dice: [{ kind: "d10", value: 3 }],
+      providers: ["crypto"],
+      reveal: {
+        commitId: "c-1",
+        commitment: "ab",
+        serverSeed: "cd",
+        clientSeed: "ef",
+      },
+    },
+  ],
+};
+
+const V1_CSV = `# teal-dice/roll-history v1
+id,timestamp,roller,color,room,notation,dice_kinds,dice_values,modifier,total,authoritative
+roll-2,2024-05-01T12:00:00.000Z,Bo,#112233,,1d100+2,d100,73(70+3),2,75,false`;
+
+describe("history export", () => {
+  it.each([
+    ["JSON", exportHistoryJSON],
+    ["CSV", exportHistoryCSV],
+  ])("keeps how a roll was read through %s", (_, exportHistory) => {
+    const [entry] = importHistory(exportHistory([POOL]));
+    expect(entry).toEqual({ ...POOL, authoritative: false });
+  });
+
+  it("reads fractional face values from CSV", () => {
+    const dice = [1.5, -0.5, 2].map((value) => ({ kind: "d6", value }));
+    const text = exportHistoryCSV([{ ...POOL, dice, total: 3 }]);
+    expect(importHistory(text)[0].dice).toEqual(dice);
+  });
+
+  it("still reads version 1 exports", () => {
+    const [entry] = importHistory(V1_CSV);
+    expect(entry).toMatchObject({
+      id: "roll-2",
+      total: 75,
+      dice: [{ kind: "d100", value: 73, tens: 70, units: 3 }],
+    });
+    expect(entry.outcome).toBeUndefined();
+    expect(entry.check).toBeUndefined();
+  });
+
+  it("rejects a roll with a bad check", () => {
+    const text = exportHistoryJSON([
+      { ...POOL, check: { mode: "sideways" } as never },
+    ]);
+    expect(() => importHistory(text)).toThrow(HistoryImportError);
+    expect(() => importHistory(text)).toThrow("Roll 1: bad check");
+  });
+});
@@ -0,0 +1,425 @@
+import type { RollCheck } from "./checks";
+import { dieType } from "./die-types";
+import type { FairReveal } from "./fair";
+import type { HistoryEntry } from "./history";
+import type { ReadingChoice } from "./readings";
+import type { RolledDie, RollStep, RollWave } from "./types";
+
+/**
+ * Versioned export format for the roll history. Bump the version (and keep
+ * reading the old one) whenever a field changes meaning.
+ */
+export const HISTORY_SCHEMA = "teal-dice/roll-history";
+export const HISTORY_SCHEMA_VERSION = 2;
+
+export type ExportedRoll = {
+  id: string;
+  timestamp: string;
+  roller: string;
+  color: string;
+  room: string | null;
+  notation: string | null;
+  dice: RolledDie[];
+  modifier: number;
+  total: number;
+  authoritative: boolean;
+  /**
+   * How the roll was read and checked, for rolls that aren't just summed;
+   * null when it was, and in version 1 exports.
+   */
+  outcome: string | null;
+  reading: ReadingChoice | null;
+  check: RollCheck | null;
+  step: RollStep | null;
+  waves: RollWave[] | null;
+};
+
+export type HistoryExport = {
+  schema: typeof HISTORY_SCHEMA;
+  version: typeof HISTORY_SCHEMA_VERSION;
+  exportedAt: string;
+  rolls: ExportedRoll[];
+};
+
+const CSV_COLUMNS_V1 = [
+  "id",
+  "timestamp",
+  "roller",
+  "color",
+  "room",
+  "notation",
+  "dice_kinds",
+  "dice_values",
+  "modifier",
+  "total",
+  "authoritative",
+] as const;
+// Reading, check, step and waves are JSON, as they have no flat form
+const CSV_COLUMNS = [
+  ...CSV_COLUMNS_V1,
+  "outcome",
+  "reading",
+  "check",
+  "step",
+  "waves",
+] as const;
+
+export class HistoryImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HistoryImportError";
+  }
+}
+
+function toExported(e: HistoryEntry): ExportedRoll {
+  return {
+    id: e.id,
+    timestamp: new Date(e.at).toISOString(),
+    roller: e.by,
+    color: e.color,
+    room: e.room ?? null,
+    notation: e.notation ?? null,
+    dice: e.dice.map(({ kind, value, tens, units }) =>
+      tens === undefined ? { kind, value } : { kind, value, tens, units },
+    ),
+    modifier: e.modifier ?? 0,
+    total: e.total,
+    authoritative: !!e.authoritative,
+    outcome: e.outcome ?? null,
+    reading: e.reading ?? null,
+    check: e.check ?? null,
+    step: e.step ?? null,
+    waves: e.waves ?? null,
+  };
+}
+
+function fromExported(r: ExportedRoll): HistoryEntry {
+  return {
+    id: r.id,
+    at: Date.parse(r.timestamp),
+    by: r.roller,
+    color: r.color,
+    room: r.room ?? undefined,
+    notation: r.notation ?? undefined,
+    dice: r.dice,
+    modifier: r.modifier,
+    total: r.total,
+    authoritative: r.authoritative,
+    outcome: r.outcome ?? undefined,
+    reading: r.reading ?? undefined,
+    check: r.check ?? undefined,
+    step: r.step ?? undefined,
+    waves: r.waves ?? undefined,
+  };
+}
+
+export function exportHistoryJSON(entries: HistoryEntry[]): string {
+  const doc: HistoryExport = {
+    schema: HISTORY_SCHEMA,
+    version: HISTORY_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    rolls: entries.map(toExported),
+  };
+  return JSON.stringify(doc, null, 2);
+}
+
+const csvField = (v: string) =>
+  /[",\n\r]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+
+// d100 values carry their percentile pair: "73(70+3)"
+const formatDieValue = (d: RolledDie) =>
+  d.tens === undefined ? String(d.value) : `${d.value}(${d.tens}+${d.units})`;
+
+/** CSV with one roll per row; per-die columns are `;`-separated. */
+export function exportHistoryCSV(entries: HistoryEntry[]): string {
+  const rows = entries
+    .map(toExported)
+    .map((r) =>
+      [
+        r.id,
+        r.timestamp,
+        r.roller,
+        r.color,
+        r.room ?? "",
+        r.notation ?? "",
+        r.dice.map((d) => d.kind).join(";"),
+        r.dice.map(formatDieValue).join(";"),
+        String(r.modifier),
+        String(r.total),
+        String(r.authoritative),
+        r.outcome ?? "",
+        ...[r.reading, r.check, r.step, r.waves].map((v) =>
+          v === null ? "" : JSON.stringify(v),
+        ),
+      ]
+        .map(csvField)
+        .join(","),
+    );
+  return [
+    `# ${HISTORY_SCHEMA} v${HISTORY_SCHEMA_VERSION}`,
+    CSV_COLUMNS.join(","),
+    ...rows,
+  ].join("\n");
+}
+
+function parseCsvLine(line: string): string[] {
+  const out: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else if (c === '"') quoted = false;
+      else cur += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ",") {
+      out.push(cur);
+      cur = "";
+    } else cur += c;
+  }
+  out.push(cur);
+  return out;
+}
+
+function splitCsvRecords(text: string): string[] {
+  // Newlines inside quoted fields belong to the record
+  const records: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (const c of text.replace(/\r\n?/g, "\n")) {
+    if (c === '"') quoted = !quoted;
+    if (c === "\n" && !quoted) {
+      records.push(cur);
+      cur = "";
+    } else cur += c;
+  }
+  records.push(cur);
+  return records.filter((r) => r.trim() !== "");
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+
+const isNumber = (v: unknown): v is number =>
+  typeof v === "number" && Number.isFinite(v);
+
+const isString = (v: unknown): v is string => typeof v === "string";
+
+const isFairReveal = (v: unknown): v is FairReveal =>
+  isRecord(v) &&
+  [v.commitId, v.commitment, v.serverSeed, v.clientSeed].every(isString);
+
+type Fail = (msg: string) => never;
+
+function validateDice(dice: unknown, fail: Fail, what = "die"): RolledDie[] {
+  if (!Array.isArray(dice)) return fail(`missing ${what}s`);
+  return dice.map((d: unknown, i) => {
+    if (!isRecord(d)) return fail(`${what} ${i + 1} is not an object`);
+    const { kind, value, tens, units } = d;
+    if (typeof kind !== "string" || !dieType(kind))
+      return fail(`${what} ${i + 1} has unknown kind`);
+    if (!isNumber(value)) return fail(`${what} ${i + 1} has no value`);
+    if (tens === undefined && units === undefined) return { kind, value };
+    if (!isNumber(tens) || !isNumber(units))
+      return fail(`${what} ${i + 1} has half a d100 pair`);
+    return { kind, value, tens, units };
+  });
+}
+
+function validateReading(v: unknown, fail: Fail): ReadingChoice | null {
+  if (v === undefined || v === null) return null;
+  if (!isRecord(v) || typeof v.preset !== "string") return fail("bad reading");
+  if (v.target !== undefined && !isNumber(v.target))
+    return fail("bad reading target");
+  return v.target === undefined
+    ? { preset: v.preset }
+    : { preset: v.preset, target: v.target };
+}
+
+function validateCheck(v: unknown, fail: Fail): RollCheck | null {
+  if (v === undefined || v === null) return null;
+  if (
+    !isRecord(v) ||
+    (v.mode !== "normal" && v.mode !== "advantage" && v.mode !== "disadvantage")
+  )
+    return fail("bad check");
+  if (v.dc !== undefined && !isNumber(v.dc)) return fail("bad check DC");
+  return v.dc === undefined ? { mode: v.mode } : { mode: v.mode, dc: v.dc };
+}
+
+function validateStep(v: unknown, fail: Fail): RollStep | null {
+  if (v === undefined || v === null) return null;
+  if (!isRecord(v) || typeof v.of !== "string" || !isNumber(v.number))
+    return fail("bad step");
+  return {
+    of: v.of,
+    number: v.number,
+    held: validateDice(v.held, fail, "held die"),
+  };
+}
+
+function validateWaves(v: unknown, fail: Fail): RollWave[] | null {
+  if (v === undefined || v === null) return null;
+  if (!Array.isArray(v)) return fail("bad waves");
+  return v.map((w: unknown, i) => {
+    if (!isRecord(w) || typeof w.rollId !== "string")
+      return fail(`wave ${i + 1} has no roll id`);
+    const { providers, reveal } = w;
+    if (
+      providers !== undefined &&
+      !(Array.isArray(providers) && providers.every(isString))
+    )
+      return fail(`wave ${i + 1} has bad providers`);
+    if (reveal !== undefined && !isFairReveal(reveal))
+      return fail(`wave ${i + 1} has a bad reveal`);
+    return {
+      rollId: w.rollId,
+      dice: validateDice(w.dice, fail, `wave ${i + 1} die`),
+      ...(providers && { providers }),
+      ...(reveal && { reveal }),
+    };
+  });
+}
+
+function validateRoll(r: unknown, where: string): ExportedRoll {
+  const fail = (msg: string): never => {
+    throw new HistoryImportError(`${where}: ${msg}`);
+  };
+  if (!isRecord(r)) return fail("not an object");
+  const { id, timestamp, roller, color, room, notation, modifier, total } = r;
+  if (typeof id !== "string" || !id) return fail("missing id");
+  if (typeof timestamp !== "string" || isNaN(Date.parse(timestamp)))
+    return fail("bad timestamp");
+  if (typeof roller !== "string") return fail("missing roller");
+  if (typeof color !== "string" || !/^#[0-9a-f]{6}$/i.test(color))
+    return fail("bad color");
+  const dice = validateDice(r.dice, fail);
+  if (dice.length === 0) return fail("missing dice");
+  if (!isNumber(modifier)) return fail("bad modifier");
+  if (!isNumber(total)) return fail("bad total");
+  if (
+    r.outcome !== undefined &&
+    r.outcome !== null &&
+    typeof r.outcome !== "string"
+  )
+    return fail("bad outcome");
+  return {
+    id,
+    timestamp,
+    roller,
+    color,
+    room: typeof room === "string" && room ? room : null,
+    notation: typeof notation === "string" && notation ? notation : null,
+    dice,
+    modifier,
+    total,
+    authoritative: r.authoritative === true,
+    outcome: typeof r.outcome === "string" && r.outcome ? r.outcome : null,
+    reading: validateReading(r.reading, fail),
+    check: validateCheck(r.check, fail),
+    step: validateStep(r.step, fail),
+    waves: validateWaves(r.waves, fail),
+  };
+}
+
+/** Version 1 exports are still read; their rolls have no reading, check, step or waves. */
+function checkVersion(version: unknown) {
+  if (version !== 1 && version !== HISTORY_SCHEMA_VERSION)
+    throw new HistoryImportError(`Unsupported version ${version}.`);
+  return version;
+}
+
+function importJSON(text: string): ExportedRoll[] {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new HistoryImportError("File is not valid JSON.");
+  }
+  if (!isRecord(doc) || doc.schema !== HISTORY_SCHEMA)
+    throw new HistoryImportError("Not a roll history export.");
+  checkVersion(doc.version);
+  if (!Array.isArray(doc.rolls))
+    throw new HistoryImportError("Export has no rolls.");
+  return doc.rolls.map((r: unknown, i) => validateRoll(r, `Roll ${i + 1}`));
+}
+
+function importCSV(text: string): ExportedRoll[] {
+  const records = splitCsvRecords(text);
+  const banner = /^# (\S+) v(\d+)$/.exec(records[0]?.trim() ?? "");
+  if (!banner || banner[1] !== HISTORY_SCHEMA)
+    throw new HistoryImportError("Not a roll history export.");
+  const columns: readonly string[] =
+    checkVersion(Number(banner[2])) === 1 ? CSV_COLUMNS_V1 : CSV_COLUMNS;
+  const header = parseCsvLine(records[1] ?? "");
+  if (header.join(",") !== columns.join(","))
+    throw new HistoryImportError("Unexpected CSV columns.");
+
+  return records.slice(2).map((line, i) => {
+    const f = parseCsvLine(line);
+    const row: Record<string, string> = Object.fromEntries(
+      columns.map((c, j) => [c, f[j] ?? ""]),
+    );
+    const where = `Row ${i + 1}`;
+    const json = (column: string): unknown => {
+      if (!row[column]) return null;
+      try {
+        return JSON.parse(row[column]);
+      } catch {
+        throw new HistoryImportError(`${where}: bad ${column}`);
+      }
+    };
+    const kinds = row.dice_kinds.split(";");
+    const values = row.dice_values.split(";");
+    const dice = kinds.map((kind, k) => {
+      // Custom dice can have fractional faces, e.g. "1.5"
+      const m = /^(-?\d+(?:\.\d+)?)(?:\((\d+)\+(\d+)\))?$/.exec(
+        values[k] ?? "",
+      );
+      if (!m) return { kind, value: NaN };
+      return m[2] === undefined
+        ? { kind, value: Number(m[1]) }
+        : {
+            kind,
+            value: Number(m[1]),
+            tens: Number(m[2]),
+            units: Number(m[3]),
+          };
+    });
+    return validateRoll(
+      {
+        id: row.id,
+        timestamp: row.timestamp,
+        roller: row.roller,
+        color: row.color,
+        room: row.room,
+        notation: row.notation,
+        dice,
+        modifier: row.modifier === "" ? NaN : Number(row.modifier),
+        total: row.total === "" ? NaN : Number(row.total),
+        authoritative: row.authoritative === "true",
+        outcome: row.outcome,
+        reading: json("reading"),
+        check: json("check"),
+        step: json("step"),
+        waves: json("waves"),
+      },
+      where,
+    );
+  });
+}
+
+/**
+ * Parses a JSON or CSV export; throws HistoryImportError when invalid.
+ * A file can claim anything, so no imported roll counts as rolled by the
+ * server.
+ */
+export function importHistory(text: string): HistoryEntry[] {
+  const rolls = text.trimStart().startsWith("{")
+    ? importJSON(text)
+    : importCSV(text);
+  return rolls.map((r) => fromExported({ ...r, authoritative: false }));
+}
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from "react";
+import { loadHistory, saveHistory } from "./storage";
+import type { SharedRoll } from "./types";
+
+export type HistoryEntry = SharedRoll & {
+  room?: string;
+  /** Page session the roll was recorded in; see SESSION_ID. */
+  session?: string;
+};
+
+export const HISTORY_LIMIT = 500;
+
+/** Identifies this page load, so the log can be split into sessions. */
+export const SESSION_ID =
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `session-${Date.now()}`;
+
+/** Session of room rolls made before this page joined the room. */
+export const ROOM_SESSION = "room";
+
+/** Merges entries by id, newest first, keeping the first copy seen. */
+export function mergeHistory(
+  current: HistoryEntry[],
+  incoming: HistoryEntry[],
+): HistoryEntry[] {
+  const seen = new Set(current.map((e) => e.id));
+  const added = incoming.filter((e) => {
+    if (seen.has(e.id)) return false;
+    seen.add(e.id);
+    return true;
+  });
+  if (added.length === 0) return current;
+  return [...current, ...added]
+    .sort((a, b) => b.at - a.at)
+    .slice(0, HISTORY_LIMIT);
+}
+
+export function useRollHistory() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+
+  useEffect(() => setEntries(loadHistory()), []);
+
+  const merge = useCallback((incoming: HistoryEntry[]) => {
+    setEntries((current) => {
+      const next = mergeHistory(current, incoming);
+      if (next !== current) saveHistory(next);
+      return next;
+    });
+  }, []);
+
+  const clear = useCallback(() => {
+    setEntries([]);
+    saveHistory([]);
+  }, []);
+
+  return { entries, merge, clear };
+}
@@ -0,0 +1,221 @@
+import * as THREE from "three";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader";
+import { OBJLoader } from "three/examples/jsm/loaders/OBJLoader";
+import {
+  buildFaceGroups,
+  geometryToConvexArgs,
+  isConvex,
+  type FaceGroup,
+} from "./convex";
+import { checkDieName, customDieType } from "./dice-packs";
+import { canonicalFaceValues, type DieType } from "./die-types";
+
+/** Cannon collides convex hulls face by face; keep imported dice low-poly. */
+const MAX_TRIANGLES = 2000;
+/** Faces smaller than this share of the surface are probably bevels. */
+const TINY_FACE = 0.005;
+/** Normals closer than this (about 2°) probably belong to one face. */
+const SPLIT_FACE_DOT = Math.cos((2 * Math.PI) / 180);
+
+export class MeshImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MeshImportError";
+  }
+}
+
+export type MeshDie = {
+  /** File name without its extension. */
+  name: string;
+  geometry: THREE.BufferGeometry;
+  groups: FaceGroup[];
+  triToGroup: Uint16Array;
+  /** Suggested value per group, opposite faces summing like a standard die. */
+  values: number[];
+  /** Problems that won't stop the die from working but may make it unfair. */
+  warnings: string[];
+};
+
+async function loadScene(file: File): Promise<THREE.Object3D> {
+  const ext = file.name.split(".").pop()?.toLowerCase();
+  try {
+    if (ext === "obj") return new OBJLoader().parse(await file.text());
+    if (ext === "glb" || ext === "gltf")
+      return (await new GLTFLoader().parseAsync(await file.arrayBuffer(), ""))
+        .scene;
+  } catch (err) {
+    // Loaders reject with Errors or with raw fetch events for external files
+    throw new MeshImportError(
+      `Could not read ${file.name}: ${
+        err instanceof Error
+          ? err.message
+          : "it refers to other files; export a .glb or an embedded .gltf"
+      }`,
+    );
+  }
+  throw new MeshImportError("Use a .glb, .gltf or .obj file.");
+}
+
+/** Every mesh in the scene, baked into one non-indexed geometry. */
+function mergeMeshes(root: THREE.Object3D): THREE.BufferGeometry {
+  root.updateMatrixWorld(true);
+  const positions: number[] = [];
+  const v = new THREE.Vector3();
+  root.traverse((o) => {
+    const mesh = o as THREE.Mesh;
+    if (!mesh.isMesh) return;
+    const pos = mesh.geometry.getAttribute("position");
+    if (!pos) return;
+    const index = mesh.geometry.getIndex();
+    const count = index ? index.count : pos.count;
+    for (let i = 0; i < count; i++) {
+      v.fromBufferAttribute(pos, index ? index.getX(i) : i);
+      v.applyMatrix4(mesh.matrixWorld);
+      positions.push(v.x, v.y, v.z);
+    }
+  });
+  const g = new THREE.BufferGeometry();
+  g.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+  return g;
+}
+
+function triangleArea(pos: THREE.BufferAttribute, t: number) {
+  const a = new THREE.Vector3().fromBufferAttribute(pos, t * 3);
+  const b = new THREE.Vector3().fromBufferAttribute(pos, t * 3 + 1);
+  const c = new THREE.Vector3().fromBufferAttribute(pos, t * 3 + 2);
+  return b.sub(a).cross(c.sub(a)).length() / 2;
+}
+
+const listFaces = (faces: number[]) =>
+  faces.length > 6
+    ? `${faces.slice(0, 6).join(", ")} and ${faces.length - 6} more`
+    : faces.join(", ");
+
+/**
+ * `buildFaceGroups` buckets triangles by normal at 1e-3, which goes wrong in
+ * both directions on arbitrary meshes: parallel surfaces at different depths
+ * land in one group, and a face that isn't quite flat splits into several.
+ */
+function checkMesh(geom: THREE.BufferGeometry, groups: FaceGroup[]): string[] {
+  const warnings: string[] = [];
+  if (!isConvex(geometryToConvexArgs(geom), 1e-3))
+    warnings.push(
+      "The mesh is not convex. Physics treats dice as convex, so it will bounce and settle oddly.",
+    );
+
+  const pos = geom.getAttribute("position") as THREE.BufferAttribute;
+  const v = new THREE.Vector3();
+  const merged: number[] = [];
+  const areas = groups.map((g, gi) => {
+    let lo = Infinity;
+    let hi = -Infinity;
+    let area = 0;
+    for (const t of g.triIndices) {
+      area += triangleArea(pos, t);
+      for (let k = 0; k < 3; k++) {
+        const d = g.normal.dot(v.fromBufferAttribute(pos, t * 3 + k));
+        lo = Math.min(lo, d);
+        hi = Math.max(hi, d);
+      }
+    }
+    if (hi - lo > 1e-3) merged.push(gi + 1);
+    return area;
+  });
+  if (merged.length)
+    warnings.push(
+      `Faces ${listFaces(
+        merged,
+      )} each join parallel surfaces that are not in one plane.`,
+    );
+
+  const split: string[] = [];
+  for (let i = 0; i < groups.length; i++)
+    for (let j = i + 1; j < groups.length; j++)
+      if (groups[i].normal.dot(groups[j].normal) > SPLIT_FACE_DOT)
+        split.push(`${i + 1} and ${j + 1}`);
+  if (split.length)
+    warnings.push(
+      `Faces ${split.slice(0, 4).join("; ")}${
+        split.length > 4 ? "; …" : ""
+      } are nearly parallel and may be one face that isn't quite flat.`,
+    );
+
+  const total = areas.reduce((a, b) => a + b, 0);
+  const tiny = areas.flatMap((a, i) => (a < total * TINY_FACE ? [i + 1] : []));
+  if (tiny.length)
+    warnings.push(
+      `Faces ${listFaces(
+        tiny,
+      )} are very small, probably bevels or rounded edges. A sharp-edged model reads best.`,
+    );
+  return warnings;
+}
+
+/** Loads a glTF/GLB/OBJ model, centred and sized like the built-in dice. */
+export async function loadMeshDie(file: File): Promise<MeshDie> {
+  const geometry = mergeMeshes(await loadScene(file));
+  const triangles = geometry.getAttribute("position").count / 3;
+  if (triangles === 0) throw new MeshImportError("The file has no meshes.");
+  if (triangles > MAX_TRIANGLES)
+    throw new MeshImportError(
+      `The model has ${triangles} triangles; dice need at most ${MAX_TRIANGLES}. Export a low-poly version.`,
+    );
+
+  geometry.computeBoundingBox();
+  const center = geometry.boundingBox!.getCenter(new THREE.Vector3());
+  geometry.translate(-center.x, -center.y, -center.z);
+  geometry.computeBoundingSphere();
+  const s = 0.9 / geometry.boundingSphere!.radius;
+  geometry.scale(s, s, s);
+  geometry.computeVertexNormals();
+
+  const { groups, triToGroup } = buildFaceGroups(geometry);
+  if (groups.length < 2)
+    throw new MeshImportError("Found no flat faces to read the die from.");
+  const suggested = canonicalFaceValues(groups);
+  return {
+    name: file.name.replace(/\.[^.]*$/, ""),
+    geometry,
+    groups,
+    triToGroup,
+    values: groups.map((g) => suggested.get(g) ?? 0),
+    warnings: checkMesh(geometry, groups),
+  };
+}
+
+/**
+ * The die for a mapped mesh. Faces are matched to `mesh.groups` by normal,
+ * since the groups a die builds for itself needn't come out in the same order.
+ */
+export function meshDieType(
+  mesh: MeshDie,
+  kind: string,
+  values: number[],
+): DieType {
+  const fail = (msg: string): never => {
+    throw new MeshImportError(`The ${msg}.`);
+  };
+  const pack = `mesh:${mesh.name}`;
+  const notation = checkDieName(kind, undefined, pack, fail);
+  values.forEach((v, i) => {
+    if (!Number.isFinite(v)) fail(`value for face ${i + 1} is not a number`);
+  });
+
+  const faces = values.map((value) => ({ value, label: String(value) }));
+  const faceFor = (g: FaceGroup) => {
+    let best = 0;
+    mesh.groups.forEach((ref, i) => {
+      if (ref.normal.dot(g.normal) > mesh.groups[best].normal.dot(g.normal))
+        best = i;
+    });
+    return faces[best];
+  };
+  return customDieType({
+    kind,
+    notation,
+    pack,
+    makeGeometry: () => mesh.geometry.clone(),
+    faces,
+    faceFor,
+  });
+}
@@ -0,0 +1,140 @@
+import {
+  canonicalFaceValues,
+  D6,
+  D8,
+  D12,
+  registerDie,
+  type DieSpec,
+} from "./die-types";
+import {
+  expandSymbols,
+  formatSymbols,
+  registerDiceSet,
+  type DiceSet,
+  type SymbolCounts,
+} from "./symbols";
+
+/** Success/advantage dice in the style of narrative RPG systems. */
+export const NARRATIVE_SET: DiceSet = {
+  id: "narrative",
+  name: "Narrative",
+  symbols: [
+    {
+      id: "triumph",
+      name: "Triumph",
+      glyph: "✸",
+      icon: "M12 1L14 8L20 4L16 10L23 12L16 14L20 20L14 16L12 23L10 16L4 20L8 14L1 12L8 10L4 4L10 8Z",
+      implies: { success: 1 },
+    },
+    {
+      id: "success",
+      name: "Success",
+      glyph: "✶",
+      icon: "M12 2L14.5 9.5L22 12L14.5 14.5L12 22L9.5 14.5L2 12L9.5 9.5Z",
+    },
+    {
+      id: "advantage",
+      name: "Advantage",
+      glyph: "▲",
+      icon: "M12 3L22 20L12 15L2 20Z",
+    },
+    {
+      id: "despair",
+      name: "Despair",
+      glyph: "■",
+      icon: "M4 4H20V20H4Z",
+      implies: { failure: 1 },
+    },
+    {
+      id: "failure",
+      name: "Failure",
+      glyph: "✖",
+      icon: "M5 3L12 10L19 3L21 5L14 12L21 19L19 21L12 14L5 21L3 19L10 12L3 5Z",
+    },
+    {
+      id: "threat",
+      name: "Threat",
+      glyph: "⬢",
+      icon: "M12 2L21 7V17L12 22L3 17V7Z",
+    },
+  ],
+  cancels: [
+    ["success", "failure"],
+    ["advantage", "threat"],
+  ],
+};
+
+const PIPS: Record<string, string> = {
+  s: "success",
+  a: "advantage",
+  f: "failure",
+  t: "threat",
+  T: "triumph",
+  D: "despair",
+};
+
+/** Faces written as pips, e.g. "sa" is one success and one advantage. */
+const faces = (...written: string[]): SymbolCounts[] =>
+  written.map((w) => {
+    const counts: SymbolCounts = {};
+    for (const c of w) counts[PIPS[c]] = (counts[PIPS[c]] ?? 0) + 1;
+    return counts;
+  });
+
+function registerSymbolDie(
+  base: DieSpec,
+  kind: string,
+  color: string,
+  dieFaces: SymbolCounts[],
+) {
+  const faceOf = (value: number) => dieFaces[value - 1] ?? {};
+  const valueForGroup: DieSpec["valueForGroup"] = (g, all) =>
+    canonicalFaceValues(all).get(g) ?? 0;
+  const spec: DieSpec = {
+    ...base,
+    kind,
+    color,
+    labelForGroup: () => "",
+    valueForGroup,
+    symbolsForGroup: (g, all) =>
+      expandSymbols(NARRATIVE_SET, faceOf(valueForGroup(g, all))),
+    labelSize: 0.22,
+    maxValue: dieFaces.length,
+  };
+  registerDie({
+    kind,
+    notation: `d${kind}`,
+    range: [1, dieFaces.length],
+    spec,
+    format: (v) => formatSymbols(NARRATIVE_SET, faceOf(v)),
+    symbols: { set: NARRATIVE_SET.id, faces: dieFaces },
+  });
+}
+
+registerDiceSet(NARRATIVE_SET);
+registerSymbolDie(D6, "boost", "#6cbde9", faces("", "", "s", "sa", "aa", "a"));
+registerSymbolDie(D6, "setback", "#222222", faces("", "", "f", "f", "t", "t"));
+registerSymbolDie(
+  D8,
+  "ability",
+  "#2e8b57",
+  faces("", "s", "s", "ss", "a", "a", "sa", "aa"),
+);
+registerSymbolDie(
+  D8,
+  "difficulty",
+  "#5b2a86",
+  faces("", "f", "ff", "t", "t", "t", "tt", "ft"),
+);
+registerSymbolDie(
+  D12,
+  "proficiency",
+  "#d9a400",
+  faces("", "s", "s", "ss", "ss", "a", "sa", "sa", "sa", "aa", "aa", "T"),
+);
+registerSymbolDie(
+  D12,
+  "challenge",
+  "#b3122e",
+  faces("", "f", "f", "ff", "ff", "t", "t", "ft", "ft", "tt", "tt", "D"),
+);
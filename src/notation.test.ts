@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import "./narrative-dice";
+import {
+  diceForRoll,
+  evaluateRoll,
+  formatNotation,
+  MAX_CHAIN,
+  MAX_DICE,
+  NotationError,
+  parseNotation,
+  pendingThrows,
+} from "./notation";
+
+/** Throws `text` with one throw per die, `values` in `diceForRoll` order. */
+const rolled = (text: string, ...values: number[]) =>
+  evaluateRoll(
+    parseNotation(text),
+    values.map((v) => [v]),
+  );
+
+describe("parseNotation", () => {
+  it("reads counts, kinds, arithmetic and grouping", () => {
+    const node = parseNotation("2d6 + (1d4 - 1) * 2");
+    expect(diceForRoll(node)).toEqual(["d6", "d6", "d4"]);
+    expect(formatNotation(node)).toBe("2d6 + (1d4 - 1) * 2");
+    expect(diceForRoll(parseNotation("d20"))).toEqual(["d20"]);
+    expect(diceForRoll(parseNotation("2d%"))).toEqual(["d100", "d100"]);
+    expect(diceForRoll(parseNotation("4dF"))).toHaveLength(4);
+  });
+
+  it.each([
+    ["", "Empty notation"],
+    ["   ", "Empty notation"],
+    ["5", "Notation has no dice"],
+    ["1d7", "Unsupported die size"],
+    ["0d6", "Dice count must be"],
+    [`${MAX_DICE + 1}d6`, "Dice count must be"],
+    [`${MAX_DICE}d6 + 1d6`, `At most ${MAX_DICE} dice`],
+    ["2d6 +", "Unexpected end of notation"],
+    ["(1d6", 'Expected ")"'],
+    ["1d6 x", 'Unexpected "x"'],
+    ["2d6kh3", "Cannot keep 3 of 2 dice"],
+    ["2d6dl3", "Cannot drop 3 of 2 dice"],
+    ["2d6kh1kl1", "Only one keep rule"],
+    ["1d6!!!", "Only one explode rule"],
+    ["1d6r<7", "Every face would be rerolled"],
+    ["1d6!>0", "Every face would explode"],
+    ["1dboost!", "Only numbered dice"],
+  ])("rejects %j", (text, message) => {
+    expect(() => parseNotation(text)).toThrow(NotationError);
+    expect(() => parseNotation(text)).toThrow(message);
+  });
+
+  it("points at where the notation went wrong", () => {
+    try {
+      parseNotation("1d6 + 2d7");
+      expect.unreachable();
+    } catch (err) {
+      expect((err as NotationError).index).toBe(6);
+    }
+  });
+
+  it.each([
+    "4d6kh3 + 2",
+    "2d20kl1 - 1d4",
+    "3d6r1 + 1d8ro<3",
+    "5d10!>=9",
+    "3d6!!",
+    "2d6!5dl1",
+    "-(1d12 + 3) / 2",
+    "1d100 + 1dF",
+  ])("formats %j so it parses back the same", (text) => {
+    const node = parseNotation(text);
+    expect(parseNotation(formatNotation(node))).toEqual(node);
+  });
+
+  it("writes the defaults it was given the short way", () => {
+    expect(formatNotation(parseNotation("1d6!6"))).toBe("1d6!");
+    expect(formatNotation(parseNotation("4d6k"))).toBe("4d6kh1");
+    expect(formatNotation(parseNotation("1d6r=1"))).toBe("1d6r1");
+  });
+});
+
+describe("evaluateRoll", () => {
+  it("adds dice and arithmetic, dividing down", () => {
+    expect(rolled("2d6 + 3", 4, 5).total).toBe(12);
+    expect(rolled("1d6 * 2 - 1", 3).total).toBe(5);
+    expect(rolled("(1d6 + 2) / 2", 5).total).toBe(3);
+    expect(rolled("-1d4", 3).total).toBe(-3);
+    expect(rolled("1d6 / 0", 3).total).toBe(0);
+  });
+
+  it("keeps and drops the highest and lowest", () => {
+    expect(rolled("4d6kh3", 1, 6, 3, 5).total).toBe(14);
+    expect(rolled("4d6kl1", 1, 6, 3, 5).total).toBe(1);
+    expect(rolled("4d6dh1", 1, 6, 3, 5).total).toBe(9);
+    expect(rolled("4d6dl1", 1, 6, 3, 5).total).toBe(14);
+    const kept = rolled("2d20kh1", 7, 15).terms[0].rolls.map((r) => r.kept);
+    expect(kept).toEqual([false, true]);
+  });
+
+  it("keeps or drops the whole pool when asked for all of it", () => {
+    expect(rolled("3d6kh3", 1, 2, 3).total).toBe(6);
+    expect(rolled("3d6dl3", 1, 2, 3).total).toBe(0);
+  });
+
+  it("keeps from the pool explosions grew", () => {
+    // The 6 exploded into a 4, so the pool is 6, 4, 2 and keeps 6 + 4
+    const result = evaluateRoll(parseNotation("2d6!kh2"), [[6, 4], [2]]);
+    expect(result.terms[0].rolls.map((r) => r.value)).toEqual([6, 4, 2]);
+    expect(result.total).toBe(10);
+  });
+
+  it("counts symbol dice in the terms but not the total", () => {
+    const result = rolled("1d6 + 1dboost", 4, 5);
+    expect(result.total).toBe(4);
+    expect(result.terms[1].subtotal).toBe(0);
+  });
+
+  it("needs a value for every die", () => {
+    expect(() => rolled("2d6", 3)).toThrow("Not enough die values");
+  });
+});
+
+describe("roll rules", () => {
+  it("rerolls until a throw stands, setting the others aside", () => {
+    const node = parseNotation("1d6r<3");
+    expect(pendingThrows(node, [[1]])).toEqual([{ die: 0, reroll: true }]);
+    expect(pendingThrows(node, [[1, 2, 5]])).toEqual([]);
+    const [roll] = evaluateRoll(node, [[1, 2, 5]]).terms[0].rolls;
+    expect(roll).toMatchObject({ value: 5, rerolled: [1, 2] });
+  });
+
+  it("rerolls only once with ro", () => {
+    const node = parseNotation("1d6ro1");
+    expect(pendingThrows(node, [[1, 1]])).toEqual([]);
+    expect(evaluateRoll(node, [[1, 1]]).total).toBe(1);
+  });
+
+  it("adds a die per explosion, or onto the same die when compounding", () => {
+    const throws = [[6, 6, 2], [3]];
+    const exploding = evaluateRoll(parseNotation("2d6!"), throws);
+    expect(exploding.terms[0].rolls.map((r) => r.value)).toEqual([6, 6, 2, 3]);
+    expect(exploding.terms[0].rolls[1].exploded).toBe(true);
+    const compounding = evaluateRoll(parseNotation("2d6!!"), throws);
+    expect(compounding.terms[0].rolls[0]).toMatchObject({
+      value: 14,
+      parts: [6, 6, 2],
+    });
+    expect(compounding.total).toBe(17);
+  });
+
+  it("asks for another throw while the die keeps exploding", () => {
+    const node = parseNotation("1d6!");
+    expect(pendingThrows(node, [[6]])).toEqual([{ die: 0, reroll: false }]);
+    expect(pendingThrows(node, [[6, 3]])).toEqual([]);
+  });
+
+  it(`stops a chain at ${MAX_CHAIN} throws`, () => {
+    const node = parseNotation("1d6!");
+    const sixes = Array.from({ length: MAX_CHAIN }, () => 6);
+    expect(pendingThrows(node, [sixes.slice(1)])).toHaveLength(1);
+    expect(pendingThrows(node, [sixes])).toEqual([]);
+    expect(evaluateRoll(node, [sixes]).total).toBe(6 * MAX_CHAIN);
+    const rerolls = Array.from({ length: MAX_CHAIN }, () => 1);
+    expect(pendingThrows(parseNotation("1d6r1"), [rerolls])).toEqual([]);
+  });
+});
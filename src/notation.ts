@@ -0,0 +1,465 @@
+import { dieType, dieTypes, isNumericDie, type DieKind } from "./die-types";
+
+export type KeepMode = "kh" | "kl" | "dh" | "dl";
+export type KeepRule = { mode: KeepMode; count: number };
+
+export type CompareOp = "=" | "<" | ">" | "<=" | ">=";
+export type Compare = { op: CompareOp; value: number };
+/** `!` adds a die for each throw matching `when`; `!!` adds onto the same die. */
+export type ExplodeRule = { compound: boolean; when: Compare };
+/** `r` throws again while `when` matches; `ro` only once. */
+export type RerollRule = { once: boolean; when: Compare };
+
+export type RollNode =
+  | {
+      type: "dice";
+      count: number;
+      kind: DieKind;
+      keep?: KeepRule;
+      explode?: ExplodeRule;
+      reroll?: RerollRule;
+    }
+  | { type: "constant"; value: number }
+  | { type: "group"; expr: RollNode }
+  | { type: "negate"; expr: RollNode }
+  | {
+      type: "binary";
+      op: "+" | "-" | "*" | "/";
+      left: RollNode;
+      right: RollNode;
+    };
+
+export type DiceNode = Extract<RollNode, { type: "dice" }>;
+
+export type DieRoll = {
+  value: number;
+  kept: boolean;
+  /** Which of the term's dice this came from; explosions share their die's. */
+  die: number;
+  /** Throws a reroll rule set aside before this one, oldest first. */
+  rerolled?: number[];
+  /** Throws a compounding rule added up into `value`. */
+  parts?: number[];
+  /** Thrown because the die's previous throw exploded. */
+  exploded?: boolean;
+};
+export type DiceTermResult = {
+  notation: string;
+  /** Index of the term's first die in `diceForRoll` order. */
+  first: number;
+  kind: DieKind;
+  rolls: DieRoll[];
+  subtotal: number;
+};
+export type RollResult = { total: number; terms: DiceTermResult[] };
+
+export const MAX_DICE = 60;
+/** Throws one die may take before its rules stop asking for more. */
+export const MAX_CHAIN = 10;
+
+export class NotationError extends Error {
+  constructor(message: string, public readonly index: number) {
+    super(message);
+    this.name = "NotationError";
+  }
+}
+
+class Parser {
+  private i = 0;
+  constructor(private readonly src: string) {}
+
+  parse(): RollNode {
+    const node = this.expr();
+    this.skipSpace();
+    if (this.i < this.src.length)
+      throw new NotationError(`Unexpected "${this.src[this.i]}"`, this.i);
+    return node;
+  }
+
+  private skipSpace() {
+    while (this.i < this.src.length && /\s/.test(this.src[this.i])) this.i++;
+  }
+
+  private peek() {
+    this.skipSpace();
+    return this.src[this.i] ?? "";
+  }
+
+  private expr(): RollNode {
+    let left = this.term();
+    for (let c = this.peek(); c === "+" || c === "-"; c = this.peek()) {
+      this.i++;
+      left = { type: "binary", op: c, left, right: this.term() };
+    }
+    return left;
+  }
+
+  private term(): RollNode {
+    let left = this.unary();
+    for (let c = this.peek(); c === "*" || c === "/"; c = this.peek()) {
+      this.i++;
+      left = { type: "binary", op: c, left, right: this.unary() };
+    }
+    return left;
+  }
+
+  private unary(): RollNode {
+    if (this.peek() === "-") {
+      this.i++;
+      return { type: "negate", expr: this.unary() };
+    }
+    return this.primary();
+  }
+
+  private primary(): RollNode {
+    const c = this.peek();
+    if (c === "(") {
+      this.i++;
+      const expr = this.expr();
+      if (this.peek() !== ")") throw new NotationError('Expected ")"', this.i);
+      this.i++;
+      return { type: "group", expr };
+    }
+    const start = this.i;
+    const count = this.number();
+    if (/[dD]/.test(this.src[this.i] ?? "")) return this.dice(count, start);
+    if (count === null)
+      throw new NotationError(
+        c ? `Unexpected "${c}"` : "Unexpected end of notation",
+        this.i,
+      );
+    return { type: "constant", value: count };
+  }
+
+  /** Longest registered notation ("d20", "dF", "d%") at the cursor. */
+  private dieKind(): DieKind | null {
+    const rest = this.src.slice(this.i).toLowerCase();
+    let best: { kind: DieKind; length: number } | null = null;
+    for (const t of dieTypes())
+      for (const written of [t.notation, ...(t.aliases ?? [])]) {
+        const w = written.toLowerCase();
+        if (rest.startsWith(w) && (!best || w.length > best.length))
+          best = { kind: t.kind, length: w.length };
+      }
+    // "d7" shouldn't read as a d2 followed by junk
+    if (!best || /^\d/.test(rest.slice(best.length))) return null;
+    this.i += best.length;
+    return best.kind;
+  }
+
+  private number(): number | null {
+    const m = /^\d+/.exec(this.src.slice(this.i));
+    if (!m) return null;
+    this.i += m[0].length;
+    return parseInt(m[0], 10);
+  }
+
+  private dice(count: number | null, start: number): DiceNode {
+    const kind = this.dieKind();
+    if (!kind) throw new NotationError("Unsupported die size", start);
+    const n = count ?? 1;
+    if (n < 1 || n > MAX_DICE)
+      throw new NotationError(`Dice count must be 1–${MAX_DICE}`, start);
+
+    const node: DiceNode = { type: "dice", count: n, kind };
+    for (;;) {
+      const rest = this.src.slice(this.i);
+      const keep = /^(kh|kl|dh|dl|k)(\d*)/i.exec(rest);
+      const rule = /^(!!|!|ro|r)/i.exec(rest);
+      if (keep) {
+        if (node.keep) throw new NotationError("Only one keep rule", start);
+        this.i += keep[0].length;
+        const mode = (
+          keep[1].toLowerCase() === "k" ? "kh" : keep[1].toLowerCase()
+        ) as KeepMode;
+        const keepCount = keep[2] ? parseInt(keep[2], 10) : 1;
+        if (keepCount > n)
+          throw new NotationError(
+            `Cannot ${
+              mode[0] === "k" ? "keep" : "drop"
+            } ${keepCount} of ${n} dice`,
+            start,
+          );
+        node.keep = { mode, count: keepCount };
+      } else if (rule) {
+        this.i += rule[0].length;
+        const written = rule[1].toLowerCase();
+        const [lo, hi] = dieType(kind)?.range ?? [1, 1];
+        if (!isNumericDie(kind))
+          throw new NotationError(
+            "Only numbered dice can explode or reroll",
+            start,
+          );
+        if (written[0] === "!") {
+          if (node.explode)
+            throw new NotationError("Only one explode rule", start);
+          const when = this.compare() ?? { op: "=", value: hi };
+          if (faceValues(lo, hi).every((v) => matches(when, v)))
+            throw new NotationError("Every face would explode", start);
+          node.explode = { compound: written === "!!", when };
+        } else {
+          if (node.reroll)
+            throw new NotationError("Only one reroll rule", start);
+          const when = this.compare() ?? { op: "=", value: lo };
+          const once = written === "ro";
+          if (!once && faceValues(lo, hi).every((v) => matches(when, v)))
+            throw new NotationError("Every face would be rerolled", start);
+          node.reroll = { once, when };
+        }
+      } else break;
+    }
+    return node;
+  }
+
+  /** Optional comparison after a rule: "6", ">=5", "<2", "=-1". */
+  private compare(): Compare | null {
+    const m = /^(?:(<=|>=|<|>|=)(-?\d+)|(\d+))/.exec(this.src.slice(this.i));
+    if (!m) return null;
+    this.i += m[0].length;
+    return m[3] !== undefined
+      ? { op: "=", value: parseInt(m[3], 10) }
+      : { op: m[1] as CompareOp, value: parseInt(m[2], 10) };
+  }
+}
+
+const faceValues = (lo: number, hi: number) =>
+  Array.from({ length: hi - lo + 1 }, (_, i) => lo + i);
+
+function matches({ op, value }: Compare, v: number) {
+  switch (op) {
+    case "=":
+      return v === value;
+    case "<":
+      return v < value;
+    case ">":
+      return v > value;
+    case "<=":
+      return v <= value;
+    case ">=":
+      return v >= value;
+  }
+}
+
+export function parseNotation(text: string): RollNode {
+  if (!text.trim()) throw new NotationError("Empty notation", 0);
+  const node = new Parser(text).parse();
+  const total = diceForRoll(node).length;
+  if (total === 0) throw new NotationError("Notation has no dice", 0);
+  if (total > MAX_DICE)
+    throw new NotationError(`At most ${MAX_DICE} dice per roll`, 0);
+  return node;
+}
+
+/** One dice node per die, in the order `evaluateRoll` consumes throws. */
+function diceNodes(node: RollNode): DiceNode[] {
+  switch (node.type) {
+    case "dice":
+      return Array.from({ length: node.count }, () => node);
+    case "constant":
+      return [];
+    case "group":
+    case "negate":
+      return diceNodes(node.expr);
+    case "binary":
+      return [...diceNodes(node.left), ...diceNodes(node.right)];
+  }
+}
+
+/** Die kinds in the order their values are consumed by `evaluateRoll`. */
+export function diceForRoll(node: RollNode): DieKind[] {
+  return diceNodes(node).map((n) => n.kind);
+}
+
+/** A roll of `kinds` as notation, runs of one kind written as one term. */
+export function notationForDice(kinds: DieKind[]): RollNode {
+  const terms: DiceNode[] = [];
+  for (const kind of kinds) {
+    const last = terms[terms.length - 1];
+    if (last?.kind === kind) last.count++;
+    else terms.push({ type: "dice", count: 1, kind });
+  }
+  const [first, ...rest] = terms;
+  return rest.reduce<RollNode>(
+    (left, right) => ({ type: "binary", op: "+", left, right }),
+    first,
+  );
+}
+
+/** A comparison equal to `byDefault` (an explode rule's top face) is left out. */
+function formatCompare({ op, value }: Compare, byDefault?: number) {
+  if (op === "=" && value === byDefault) return "";
+  return op === "=" && value >= 0 ? String(value) : `${op}${value}`;
+}
+
+export function formatNotation(node: RollNode): string {
+  switch (node.type) {
+    case "dice": {
+      const keep = node.keep ? `${node.keep.mode}${node.keep.count}` : "";
+      const type = dieType(node.kind);
+      const reroll = node.reroll
+        ? `${node.reroll.once ? "ro" : "r"}${formatCompare(node.reroll.when)}`
+        : "";
+      const explode = node.explode
+        ? `${node.explode.compound ? "!!" : "!"}${formatCompare(
+            node.explode.when,
+            type?.range[1],
+          )}`
+        : "";
+      const written = type?.notation ?? node.kind;
+      return `${node.count}${written}${reroll}${explode}${keep}`;
+    }
+    case "constant":
+      return String(node.value);
+    case "group":
+      return `(${formatNotation(node.expr)})`;
+    case "negate":
+      return `-${formatNotation(node.expr)}`;
+    case "binary":
+      return `${formatNotation(node.left)} ${node.op} ${formatNotation(
+        node.right,
+      )}`;
+  }
+}
+
+function keptFlags(values: number[], keep?: KeepRule): boolean[] {
+  if (!keep) return values.map(() => true);
+  const order = values
+    .map((v, i) => ({ v, i }))
+    .sort((a, b) => (keep.mode.endsWith("h") ? b.v - a.v : a.v - b.v));
+  const picked = new Set(order.slice(0, keep.count).map((o) => o.i));
+  const keeping = keep.mode[0] === "k";
+  return values.map((_, i) => picked.has(i) === keeping);
+}
+
+type Chain = {
+  rolls: Omit<DieRoll, "kept">[];
+  next: "reroll" | "explode" | null;
+};
+
+/**
+ * Reads one die's throws, oldest first, against its node's rules: which
+ * throws count, and whether the rules want another throw.
+ */
+function readChain(node: DiceNode, die: number, throws: number[]): Chain {
+  const { explode, reroll } = node;
+  const rolls: Omit<DieRoll, "kept">[] = [];
+  let rerolled: number[] = [];
+  let exploded = false;
+  let next: Chain["next"] = null;
+  for (const value of throws) {
+    next = null;
+    if (
+      reroll &&
+      matches(reroll.when, value) &&
+      !(reroll.once && rerolled.length > 0)
+    ) {
+      rerolled.push(value);
+      next = "reroll";
+      continue;
+    }
+    rolls.push({
+      value,
+      die,
+      ...(rerolled.length ? { rerolled } : {}),
+      ...(exploded ? { exploded } : {}),
+    });
+    if (!explode || !matches(explode.when, value)) break;
+    rerolled = [];
+    exploded = true;
+    next = "explode";
+  }
+  if (throws.length >= MAX_CHAIN) next = null;
+
+  if (explode?.compound && rolls.length > 1) {
+    const rerolls = rolls.flatMap((r) => r.rerolled ?? []);
+    return {
+      rolls: [
+        {
+          value: rolls.reduce((a, r) => a + r.value, 0),
+          die,
+          parts: rolls.map((r) => r.value),
+          ...(rerolls.length ? { rerolled: rerolls } : {}),
+        },
+      ],
+      next,
+    };
+  }
+  return { rolls, next };
+}
+
+export type PendingThrow = {
+  /** Index of the die in `diceForRoll` order. */
+  die: number;
+  /** Throw the same die again, rather than adding one. */
+  reroll: boolean;
+};
+
+/**
+ * Dice whose rules want another throw, given every throw so far (one list
+ * per die, in `diceForRoll` order). Empty once the roll is complete.
+ */
+export function pendingThrows(
+  node: RollNode,
+  throws: number[][],
+): PendingThrow[] {
+  return diceNodes(node).flatMap((n, i) => {
+    const { next } = readChain(n, i, throws[i] ?? []);
+    return next ? [{ die: i, reroll: next === "reroll" }] : [];
+  });
+}
+
+/**
+ * Evaluates a parsed roll against every throw of each die, in the order
+ * given by `diceForRoll`; plain dice have one throw each. Division rounds
+ * down, as in most RPGs.
+ */
+export function evaluateRoll(node: RollNode, throws: number[][]): RollResult {
+  if (throws.length < diceForRoll(node).length)
+    throw new Error("Not enough die values for this roll.");
+  const terms: DiceTermResult[] = [];
+  let cursor = 0;
+
+  const visit = (n: RollNode): number => {
+    switch (n.type) {
+      case "dice": {
+        const chains = throws
+          .slice(cursor, cursor + n.count)
+          .flatMap((t, i) => readChain(n, i, t).rolls);
+        cursor += n.count;
+        const kept = keptFlags(
+          chains.map((r) => r.value),
+          n.keep,
+        );
+        const rolls = chains.map((r, i) => ({ ...r, kept: kept[i] }));
+        // Symbol dice show up in the terms but add nothing
+        const subtotal = isNumericDie(n.kind)
+          ? rolls.reduce((a, r) => a + (r.kept ? r.value : 0), 0)
+          : 0;
+        terms.push({
+          notation: formatNotation(n),
+          first: cursor - n.count,
+          kind: n.kind,
+          rolls,
+          subtotal,
+        });
+        return subtotal;
+      }
+      case "constant":
+        return n.value;
+      case "group":
+        return visit(n.expr);
+      case "negate":
+        return -visit(n.expr);
+      case "binary": {
+        const a = visit(n.left);
+        const b = visit(n.right);
+        if (n.op === "+") return a + b;
+        if (n.op === "-") return a - b;
+        if (n.op === "*") return a * b;
+        return b === 0 ? 0 : Math.floor(a / b);
+      }
+    }
+  };
+
+  return { total: visit(node), terms };
+}
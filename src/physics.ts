@@ -1,18 +1,115 @@
-export const randomRange = (min: number, max: number) =>
-  Math.random() * (max - min) + min;
-export const randomSign = () => (Math.random() < 0.5 ? -1 : 1);
+import type { ThrowRecord } from "./replay";
 
-export function randomThrowVelocity(): [number, number, number] {
+/** Uniform source on [0, 1); `Math.random` or a seeded generator. */
+export type Rng = () => number;
+
+export const randomRange = (min: number, max: number, rng: Rng = Math.random) =>
+  rng() * (max - min) + min;
+export const randomSign = (rng: Rng = Math.random) => (rng() < 0.5 ? -1 : 1);
+
+export function randomThrowVelocity(
+  rng: Rng = Math.random,
+): [number, number, number] {
   return [
-    randomRange(2.5, 4.5) * randomSign(),
-    randomRange(6.5, 8.5),
-    randomRange(2.5, 4.5) * randomSign(),
+    randomRange(2.5, 4.5, rng) * randomSign(rng),
+    randomRange(6.5, 8.5, rng),
+    randomRange(2.5, 4.5, rng) * randomSign(rng),
   ];
 }
-export function randomThrowAngular(): [number, number, number] {
+export function randomThrowAngular(
+  rng: Rng = Math.random,
+): [number, number, number] {
   return [
-    randomRange(6, 10) * randomSign(),
-    randomRange(6, 10) * randomSign(),
-    randomRange(6, 10) * randomSign(),
+    randomRange(6, 10, rng) * randomSign(rng),
+    randomRange(6, 10, rng) * randomSign(rng),
+    randomRange(6, 10, rng) * randomSign(rng),
   ];
 }
+
+/** mulberry32: tiny, and gives the same sequence on every client. */
+export function seededRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function createThrowSeed(): number {
+  return crypto.getRandomValues(new Uint32Array(1))[0];
+}
+
+/**
+ * Seed for one die of one throw. Dice are identified by their position in
+ * the tray, so clients with the same selection derive the same seeds.
+ */
+export function dieThrowSeed(seed: number, rollToken: number, index: number) {
+  let h = seed >>> 0;
+  for (const n of [rollToken, index]) {
+    h = Math.imul(h ^ n, 0x9e3779b1);
+    h ^= h >>> 16;
+  }
+  return h >>> 0;
+}
+
+/** How the pointer was moving across the floor when dice were let go (x, z; units/s). */
+export type Flick = [number, number];
+
+/** Bounds on a flicked throw's speed across the floor (units/s). */
+const FLICK_MIN_SPEED = 2;
+const FLICK_MAX_SPEED = 9;
+
+/**
+ * Launch velocity along a flick, its speed kept within bounds and spread a
+ * little per die. Dice let go of without a flick go somewhere at random.
+ */
+export function flickVelocity(
+  [vx, vz]: Flick,
+  rng: Rng = Math.random,
+): [number, number, number] {
+  const speed = Math.hypot(vx, vz);
+  const angle =
+    (speed > 0.01 ? Math.atan2(vz, vx) : rng() * Math.PI * 2) +
+    randomRange(-0.15, 0.15, rng);
+  const s =
+    Math.min(FLICK_MAX_SPEED, Math.max(FLICK_MIN_SPEED, speed)) *
+    randomRange(0.9, 1.1, rng);
+  return [Math.cos(angle) * s, randomRange(2.5, 4.5, rng), Math.sin(angle) * s];
+}
+
+/**
+ * Launch velocity, spin and the follow-up kicks that tumble a die; aimed
+ * along `flick` when the dice were flicked rather than rolled.
+ */
+export function generateThrow(
+  rng: Rng = Math.random,
+  flick?: Flick,
+): ThrowRecord {
+  return {
+    velocity: flick ? flickVelocity(flick, rng) : randomThrowVelocity(rng),
+    angular: randomThrowAngular(rng),
+    impulses: [0, 1, 2].map((i) => ({
+      at: 50 + i * 55,
+      impulse: [0, 1.2 + rng() * 0.5, 0],
+      point: [rng() * 0.15, 0, rng() * 0.15],
+    })),
+  };
+}
+
+/** A hop with a tip, to knock a cocked die off whatever it leans on. */
+export function generateNudge(rng: Rng = Math.random): {
+  impulse: [number, number, number];
+  point: [number, number, number];
+} {
+  return {
+    impulse: [
+      randomRange(0.4, 0.8, rng) * randomSign(rng),
+      randomRange(2.2, 2.8, rng),
+      randomRange(0.4, 0.8, rng) * randomSign(rng),
+    ],
+    point: [randomRange(-0.2, 0.2, rng), 0, randomRange(-0.2, 0.2, rng)],
+  };
+}
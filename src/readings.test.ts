@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import "./narrative-dice";
+import {
+  describeReading,
+  readRoll,
+  resolveReading,
+  type ReadDie,
+} from "./readings";
+
+const d10s = (...values: number[]): ReadDie[] =>
+  values.map((value) => ({ kind: "d10", value, kept: true }));
+
+/** Reads `values` as d10s with `preset`, as one line. */
+const read = (preset: string, ...values: number[]) => {
+  const reading = readRoll(resolveReading({ preset }), d10s(...values));
+  return reading && describeReading(reading);
+};
+
+describe("readRoll", () => {
+  it("leaves a plain sum to the total", () => {
+    expect(readRoll({ type: "sum" }, d10s(3, 4))).toBeNull();
+  });
+
+  it("counts dice at or over the target", () => {
+    expect(read("successes", 6, 7, 5, 1)).toBe("2 successes");
+    expect(read("successes", 6)).toBe("1 success");
+    expect(read("successes", 2, 3)).toBe("0 successes");
+  });
+
+  it("lets a roll change the target", () => {
+    const reading = resolveReading({ preset: "successes", target: 8 });
+    expect(readRoll(reading, d10s(6, 8, 9))?.value).toBe(2);
+    // Only pools have a target to change
+    expect(resolveReading({ preset: "blades", target: 8 })).toEqual(
+      resolveReading({ preset: "blades" }),
+    );
+    expect(resolveReading({ preset: "nope" })).toEqual({ type: "sum" });
+  });
+
+  describe("Shadowrun", () => {
+    it("glitches when more than half the dice are 1s", () => {
+      expect(read("shadowrun", 1, 1, 1, 5)).toBe("1 success · Glitch");
+    });
+
+    it("glitches critically when the 1s come with no hits", () => {
+      expect(read("shadowrun", 1, 1, 1)).toBe("0 successes · Critical glitch");
+    });
+
+    it("doesn't glitch on exactly half 1s", () => {
+      expect(read("shadowrun", 1, 1, 5, 2)).toBe("1 success");
+      expect(read("shadowrun", 1, 1, 2, 3)).toBe("0 successes");
+    });
+  });
+
+  describe("Vampire V5", () => {
+    it("adds two successes per pair of 10s", () => {
+      expect(read("v5", 10, 10, 6, 1)).toBe("5 successes · Critical (1 pair)");
+      expect(read("v5", 10, 10, 10, 10)).toBe(
+        "8 successes · Critical (2 pairs)",
+      );
+    });
+
+    it("counts a lone 10 as a plain success", () => {
+      expect(read("v5", 10, 3)).toBe("1 success");
+    });
+
+    it("marks the paired 10s as critical and the 1 as failure", () => {
+      const reading = readRoll(
+        resolveReading({ preset: "v5" }),
+        d10s(10, 1, 10, 7),
+      );
+      expect(reading?.marks).toEqual([
+        "critical",
+        "failure",
+        "critical",
+        "success",
+      ]);
+    });
+  });
+
+  describe("World of Darkness", () => {
+    it("takes a success away for each 1", () => {
+      expect(read("wod", 6, 7, 1)).toBe("1 success");
+      expect(read("wod", 6, 1, 1)).toBe("0 successes");
+    });
+
+    it("botches on 1s without a success", () => {
+      expect(read("wod", 1, 1, 1)).toBe("0 successes · Botch");
+      expect(read("wod", 1, 3)).toBe("0 successes · Botch");
+    });
+
+    it("doesn't botch when a success was cancelled", () => {
+      expect(read("wod", 1, 6)).toBe("0 successes");
+      expect(read("wod", 2, 3)).toBe("0 successes");
+    });
+  });
+
+  describe("highest die", () => {
+    it("reads the highest die and marks the first one showing it", () => {
+      const reading = readRoll(
+        resolveReading({ preset: "highest" }),
+        d10s(2, 5, 3, 5),
+      );
+      expect(reading?.headline).toBe("Highest 5");
+      expect(reading?.marks).toEqual([null, "highest", null, null]);
+    });
+
+    it("names the band of Blades in the Dark", () => {
+      expect(read("blades", 6, 2)).toBe("Success (6)");
+      expect(read("blades", 4, 5)).toBe("Partial success (5)");
+      expect(read("blades", 3, 1)).toBe("Failure (3)");
+    });
+
+    it("makes two 6s a critical", () => {
+      expect(read("blades", 6, 6, 2)).toBe("Success (6) · Critical");
+      const reading = readRoll(
+        resolveReading({ preset: "blades" }),
+        d10s(6, 2, 6),
+      );
+      expect(reading?.marks).toEqual(["highest", null, "critical"]);
+    });
+  });
+
+  it("leaves dropped and symbol dice out of the pool", () => {
+    const dice: ReadDie[] = [
+      { kind: "d10", value: 9, kept: false },
+      { kind: "d10", value: 1, kept: true },
+      { kind: "boost", value: 6, kept: true },
+    ];
+    const reading = readRoll(resolveReading({ preset: "wod" }), dice);
+    expect(describeReading(reading!)).toBe("0 successes · Botch");
+    expect(reading?.marks).toEqual([null, "failure", null]);
+    const highest = readRoll(resolveReading({ preset: "highest" }), dice);
+    expect(highest?.value).toBe(1);
+  });
+});
@@ -0,0 +1,179 @@
+import { isNumericDie, type DieKind } from "./die-types";
+
+/**
+ * How a roll's dice become its result. A plain sum is the default; pool
+ * systems count dice that meet a target, or go by the highest die.
+ */
+export type ResultReading =
+  | { type: "sum" }
+  | {
+      type: "successes";
+      /** Dice showing this or more are successes. */
+      target: number;
+      /** Each 1 takes a success away (classic World of Darkness). */
+      onesCancel?: boolean;
+      /** Each pair of dice showing `on` adds `pairBonus` successes (V5 10s). */
+      critical?: { on: number; pairBonus: number };
+      /**
+       * How 1s spoil a pool: a glitch is more 1s than half the dice, a
+       * botch is 1s with no successes at all.
+       */
+      mishap?: "glitch" | "botch";
+    }
+  | {
+      type: "highest";
+      /** Outcome by highest die, checked from the top; e.g. 6 success. */
+      bands?: { min: number; label: string }[];
+      /** Two or more dice showing this make a critical. */
+      critical?: number;
+    };
+
+export type ReadingPreset = {
+  id: string;
+  name: string;
+  reading: ResultReading;
+};
+
+export const READING_PRESETS: ReadingPreset[] = [
+  { id: "sum", name: "Sum", reading: { type: "sum" } },
+  {
+    id: "successes",
+    name: "Successes",
+    reading: { type: "successes", target: 6 },
+  },
+  {
+    id: "shadowrun",
+    name: "Shadowrun",
+    reading: { type: "successes", target: 5, mishap: "glitch" },
+  },
+  {
+    id: "v5",
+    name: "Vampire V5",
+    reading: {
+      type: "successes",
+      target: 6,
+      critical: { on: 10, pairBonus: 2 },
+    },
+  },
+  {
+    id: "wod",
+    name: "World of Darkness",
+    reading: {
+      type: "successes",
+      target: 6,
+      onesCancel: true,
+      mishap: "botch",
+    },
+  },
+  { id: "highest", name: "Highest die", reading: { type: "highest" } },
+  {
+    id: "blades",
+    name: "Blades in the Dark",
+    reading: {
+      type: "highest",
+      bands: [
+        { min: 6, label: "Success" },
+        { min: 4, label: "Partial success" },
+        { min: 1, label: "Failure" },
+      ],
+      critical: 6,
+    },
+  },
+];
+
+/** How one die counted: highlighted in the results. */
+export type DieMark = "success" | "critical" | "failure" | "highest";
+
+export type RollReading = {
+  /** E.g. "3 successes" or "Partial success (5)". */
+  headline: string;
+  /** Successes, or the highest die. */
+  value: number;
+  /** Criticals, glitches and botches. */
+  notes: string[];
+  /** Per die read, in order; null for dice that didn't count. */
+  marks: (DieMark | null)[];
+};
+
+export type ReadDie = { kind: DieKind; value: number; kept: boolean };
+
+const plural = (n: number, word: string, many = `${word}s`) =>
+  `${n} ${n === 1 ? word : many}`;
+
+/**
+ * Reads `dice` as `reading` says; null for a plain sum. Dropped dice and
+ * symbol dice take no part.
+ */
+export function readRoll(
+  reading: ResultReading,
+  dice: ReadDie[],
+): RollReading | null {
+  if (reading.type === "sum") return null;
+  const counted = dice.map((d) => d.kept && isNumericDie(d.kind));
+  const pool = dice.filter((_, i) => counted[i]).map((d) => d.value);
+  const notes: string[] = [];
+
+  if (reading.type === "highest") {
+    const value = pool.length ? Math.max(...pool) : 0;
+    const at = dice.findIndex((d, i) => counted[i] && d.value === value);
+    const band = reading.bands?.find((b) => value >= b.min);
+    const crit = reading.critical;
+    if (crit !== undefined && pool.filter((v) => v === crit).length >= 2)
+      notes.push("Critical");
+    return {
+      headline: band ? `${band.label} (${value})` : `Highest ${value}`,
+      value,
+      notes,
+      marks: dice.map((d, i) =>
+        i === at
+          ? "highest"
+          : counted[i] && crit !== undefined && d.value === crit && notes.length
+          ? "critical"
+          : null,
+      ),
+    };
+  }
+
+  const { target, onesCancel, critical, mishap } = reading;
+  const hits = pool.filter((v) => v >= target).length;
+  const ones = pool.filter((v) => v === 1).length;
+  const crits = critical ? pool.filter((v) => v === critical.on).length : 0;
+  const pairs = critical ? Math.floor(crits / 2) : 0;
+  let value = hits + pairs * (critical?.pairBonus ?? 0);
+  if (onesCancel) value = Math.max(0, value - ones);
+  if (pairs) notes.push(`Critical (${plural(pairs, "pair")})`);
+  if (mishap === "glitch" && ones > pool.length / 2)
+    notes.push(hits ? "Glitch" : "Critical glitch");
+  if (mishap === "botch" && ones && !hits) notes.push("Botch");
+
+  return {
+    headline: plural(value, "success", "successes"),
+    value,
+    notes,
+    marks: dice.map((d, i) => {
+      if (!counted[i]) return null;
+      if (pairs && d.value === critical?.on) return "critical";
+      if (d.value >= target) return "success";
+      return d.value === 1 ? "failure" : null;
+    }),
+  };
+}
+
+/** One line for feeds and history, e.g. "3 successes · Glitch". */
+export function describeReading(r: RollReading) {
+  return [r.headline, ...r.notes].join(" · ");
+}
+
+/** A preset picked for a roll, with its target number changed if wanted. */
+export type ReadingChoice = { preset: string; target?: number };
+
+export function resolveReading({
+  preset,
+  target,
+}: ReadingChoice): ResultReading {
+  const reading = READING_PRESETS.find((p) => p.id === preset)?.reading;
+  if (!reading) return { type: "sum" };
+  return reading.type === "successes" && target !== undefined
+    ? { ...reading, target }
+    : reading;
+}
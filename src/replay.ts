@@ -0,0 +1,130 @@
+import * as THREE from "three";
+import type { InternalKind } from "./die-types";
+
+export type Triplet = [number, number, number];
+
+export type ThrowImpulse = { at: number; impulse: Triplet; point: Triplet };
+
+/** Everything a die was launched with; see `Die`'s throw effect. */
+export type ThrowRecord = {
+  velocity: Triplet;
+  angular: Triplet;
+  impulses: ThrowImpulse[];
+};
+
+export type DieTrack = {
+  id: string;
+  kind: InternalKind;
+  color?: string;
+  /** Label permutation the die ended with (server-authoritative rolls). */
+  faceMap?: number[];
+  /** Latest launch; dice rerolled in a later wave are thrown more than once. */
+  throw: ThrowRecord;
+  /** Flattened samples: t (ms), px, py, pz, qx, qy, qz, qw. */
+  frames: number[];
+};
+
+export type ReplayRecording = {
+  version: 1;
+  sampleMs: number;
+  duration: number;
+  dice: DieTrack[];
+};
+
+export const FRAME_STRIDE = 8;
+const SAMPLE_MS = 50;
+
+/** What a die that sat a step out was "thrown" with. */
+const STILL: ThrowRecord = {
+  velocity: [0, 0, 0],
+  angular: [0, 0, 0],
+  impulses: [],
+};
+
+const round = (v: number) => Math.round(v * 1e4) / 1e4;
+
+/**
+ * Collects throws and sampled transforms while a roll is in flight. Dice
+ * report into it; the tray begins it on throw and finishes it on settle.
+ */
+export class ReplayRecorder {
+  private t0 = 0;
+  private tracks = new Map<string, DieTrack>();
+  active = false;
+
+  begin() {
+    this.t0 = performance.now();
+    this.tracks.clear();
+    this.active = true;
+  }
+
+  throwStarted(
+    id: string,
+    kind: InternalKind,
+    record: ThrowRecord,
+    color?: string,
+  ) {
+    if (!this.active) return;
+    // A die thrown again in a later wave carries on with the same track
+    const frames = this.tracks.get(id)?.frames ?? [];
+    this.tracks.set(id, { id, kind, color, throw: record, frames });
+  }
+
+  /** Tracks a die that isn't thrown this step, so replays still show it. */
+  holdStill(id: string, kind: InternalKind, color?: string) {
+    if (!this.active || this.tracks.has(id)) return;
+    this.tracks.set(id, { id, kind, color, throw: STILL, frames: [] });
+  }
+
+  setFaceMap(id: string, faceMap: number[]) {
+    const track = this.tracks.get(id);
+    if (track) track.faceMap = [...faceMap];
+  }
+
+  sample(id: string, p: Triplet, q: [number, number, number, number]) {
+    const track = this.tracks.get(id);
+    if (!this.active || !track) return;
+    const t = performance.now() - this.t0;
+    const f = track.frames;
+    const lastT = f.length ? f[f.length - FRAME_STRIDE] : -Infinity;
+    if (t - lastT < SAMPLE_MS) return;
+    f.push(Math.round(t), ...p.map(round), ...q.map(round));
+  }
+
+  finish(): ReplayRecording | null {
+    if (!this.active) return null;
+    this.active = false;
+    const dice = Array.from(this.tracks.values()).filter(
+      (d) => d.frames.length > 0,
+    );
+    if (dice.length === 0) return null;
+    const duration = Math.max(
+      ...dice.map((d) => d.frames[d.frames.length - FRAME_STRIDE]),
+    );
+    return { version: 1, sampleMs: SAMPLE_MS, duration, dice };
+  }
+}
+
+const qa = new THREE.Quaternion();
+const qb = new THREE.Quaternion();
+
+/** Writes the interpolated transform of `track` at time `t` into `obj`. */
+export function poseAt(track: DieTrack, t: number, obj: THREE.Object3D) {
+  const f = track.frames;
+  const n = f.length / FRAME_STRIDE;
+  let i = 0;
+  while (i < n - 1 && f[(i + 1) * FRAME_STRIDE] <= t) i++;
+  const a = i * FRAME_STRIDE;
+  const b = Math.min(i + 1, n - 1) * FRAME_STRIDE;
+  const span = f[b] - f[a];
+  const k = span > 0 ? Math.min(1, Math.max(0, (t - f[a]) / span)) : 0;
+
+  obj.position.set(
+    f[a + 1] + (f[b + 1] - f[a + 1]) * k,
+    f[a + 2] + (f[b + 2] - f[a + 2]) * k,
+    f[a + 3] + (f[b + 3] - f[a + 3]) * k,
+  );
+  qa.set(f[a + 4], f[a + 5], f[a + 6], f[a + 7]);
+  qb.set(f[b + 4], f[b + 5], f[b + 6], f[b + 7]);
+  obj.quaternion.copy(qa).slerp(qb, k);
+}
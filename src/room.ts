@@ -0,0 +1,209 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { io, type Socket } from "socket.io-client";
+import { dieType, type DieKind } from "./die-types";
+import type { FairReveal } from "./fair";
+import { DEFAULT_TRAY, type TraySize } from "./tray";
+import type {
+  RollShare,
+  RoomAck,
+  RoomError,
+  CockedRule,
+  RoomMember,
+  SharedRoll,
+  UserConfig,
+} from "./types";
+
+export type RoomStatus =
+  | "connecting"
+  | "joined"
+  | "error"
+  | "kicked"
+  | "offline";
+
+const FEED_LIMIT = 20;
+
+/** Types of the custom dice (packs, mesh imports) among `set`. */
+const customDice = (set: DieKind[]) =>
+  Array.from(new Set(set)).flatMap((kind) => {
+    const type = dieType(kind);
+    return type?.faces ? [{ ...type, faces: type.faces }] : [];
+  });
+
+export function useRoom(user: UserConfig) {
+  const socketRef = useRef<Socket | null>(null);
+  const [status, setStatus] = useState<RoomStatus>("connecting");
+  const [error, setError] = useState<RoomError | null>(null);
+  const [members, setMembers] = useState<RoomMember[]>([]);
+  const [feed, setFeed] = useState<SharedRoll[]>([]);
+  // Rolls the room made before we joined, as kept by the server
+  const [history, setHistory] = useState<SharedRoll[]>([]);
+  const [selfId, setSelfId] = useState<string | null>(null);
+  const [fair, setFair] = useState(false);
+  const [cocked, setCocked] = useState<CockedRule>("rethrow");
+  // Kept through a disconnect so the dice don't change trays mid-roll
+  const [tray, setTray] = useState<TraySize>(user.room.tray ?? DEFAULT_TRAY);
+  // commitId → commitment, as published to the room before each fair roll
+  const [commitments, setCommitments] = useState<Record<string, string>>({});
+
+  const roomId = user.room.id;
+  // Read at (re)join time so a rotated code doesn't force a reconnect
+  const codeRef = useRef(user.room.code);
+  codeRef.current = user.room.code;
+  const fairRef = useRef(user.room.fair);
+  fairRef.current = user.room.fair;
+  const cockedRef = useRef(user.room.cocked);
+  cockedRef.current = user.room.cocked;
+  const trayRef = useRef(user.room.tray);
+  trayRef.current = user.room.tray;
+
+  useEffect(() => {
+    const socket = io();
+    socketRef.current = socket;
+    let kicked = false;
+    setStatus("connecting");
+    setMembers([]);
+    setFeed([]);
+    setHistory([]);
+    setCommitments({});
+    setTray(trayRef.current ?? DEFAULT_TRAY);
+
+    // "connect" also fires after a reconnect, so this re-joins as well
+    socket.on("connect", () => {
+      if (kicked) return;
+      socket.emit(
+        "join",
+        {
+          room: roomId,
+          code: codeRef.current,
+          username: user.name,
+          color: user.color,
+          fair: fairRef.current,
+          cocked: cockedRef.current,
+          tray: trayRef.current,
+        },
+        (
+          res: RoomAck<{
+            owner: boolean;
+            fair: boolean;
+            cocked: CockedRule;
+            tray: TraySize;
+          }>,
+        ) => {
+          if ("error" in res) {
+            setStatus("error");
+            setError(res.error);
+          } else {
+            setStatus("joined");
+            setError(null);
+            setSelfId(socket.id ?? null);
+            setFair(res.fair);
+            setCocked(res.cocked ?? "rethrow");
+            if (res.tray) setTray(res.tray);
+          }
+        },
+      );
+    });
+    socket.on("disconnect", () => {
+      if (!kicked) setStatus("offline");
+    });
+    socket.on("kicked", () => {
+      kicked = true;
+      setStatus("kicked");
+      setMembers([]);
+    });
+    socket.on("users", (users: RoomMember[]) => setMembers(users));
+    socket.on("history", (rolls: SharedRoll[]) => setHistory(rolls));
+    socket.on(
+      "commit",
+      ({ commitId, commitment }: { commitId: string; commitment: string }) =>
+        setCommitments((c) => ({ ...c, [commitId]: commitment })),
+    );
+    socket.on("roll", (roll: SharedRoll) =>
+      setFeed((f) => [roll, ...f].slice(0, FEED_LIMIT)),
+    );
+
+    return () => {
+      socket.emit("leave", { room: roomId });
+      socket.disconnect();
+      socketRef.current = null;
+    };
+  }, [roomId, user.name, user.color]);
+
+  const request = useCallback(
+    <T>(event: string, payload: object) =>
+      new Promise<RoomAck<T>>((resolve) => {
+        const socket = socketRef.current;
+        if (!socket)
+          return resolve({
+            error: { code: "NOT_IN_ROOM", message: "Not connected" },
+          });
+        socket.emit(event, { room: roomId, ...payload }, resolve);
+      }),
+    [roomId],
+  );
+
+  const shareRoll = useCallback(
+    (roll: RollShare) => {
+      socketRef.current?.emit("shareRoll", { room: roomId, roll });
+    },
+    [roomId],
+  );
+
+  const fairCommit = useCallback(
+    () => request<{ commitId: string; commitment: string }>("fairCommit", {}),
+    [request],
+  );
+
+  const requestRoll = useCallback(
+    (set: DieKind[], fairSeed?: { commitId: string; clientSeed: string }) =>
+      request<{
+        rollId: string;
+        results: number[];
+        providers: string[];
+        reveal?: FairReveal;
+      }>("requestRoll", {
+        notation: { set, constant: 0 },
+        // The server only knows the built-in kinds' faces, and how they're
+        // written in the notation it checks shared rolls against
+        faces: Object.fromEntries(
+          customDice(set).map((t) => [t.kind, t.faces]),
+        ),
+        notations: Object.fromEntries(
+          customDice(set).map((t) => [t.kind, t.notation]),
+        ),
+        fair: fairSeed,
+      }),
+    [request],
+  );
+
+  const kick = useCallback(
+    (memberId: string) => request("kick", { memberId }),
+    [request],
+  );
+
+  const rotateCode = useCallback(
+    (code?: string) => request<{ code: string }>("rotateCode", { code }),
+    [request],
+  );
+
+  const isOwner = members.some((m) => m.id === selfId && m.owner);
+
+  return {
+    status,
+    error,
+    members,
+    feed,
+    history,
+    selfId,
+    isOwner,
+    fair,
+    cocked,
+    tray,
+    commitments,
+    shareRoll,
+    fairCommit,
+    requestRoll,
+    kick,
+    rotateCode,
+  };
+}
@@ -1,5 +1,8 @@
+import type { HistoryEntry } from "./history";
 import type { UserConfig } from "./types";
 const KEY = "teal-dice:user-config";
+const HISTORY_KEY = "teal-dice:roll-history";
+const PACKS_KEY = "teal-dice:dice-packs";
 
 export function loadUserConfig(): UserConfig | null {
   try {
@@ -16,3 +19,38 @@ export function saveUserConfig(cfg: UserConfig) {
     localStorage.setItem(KEY, JSON.stringify(cfg));
   } catch {}
 }
+
+export function loadHistory(): HistoryEntry[] {
+  try {
+    const raw = localStorage.getItem(HISTORY_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as HistoryEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveHistory(entries: HistoryEntry[]) {
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(entries));
+  } catch {}
+}
+
+/** Imported dice packs as their original text, by pack name. */
+export function loadDicePacks(): Record<string, string> {
+  try {
+    const raw = localStorage.getItem(PACKS_KEY);
+    if (!raw) return {};
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveDicePacks(packs: Record<string, string>) {
+  try {
+    localStorage.setItem(PACKS_KEY, JSON.stringify(packs));
+  } catch {}
+}
@@ -0,0 +1,122 @@
+import { dieType, type DieKind } from "./die-types";
+import type { RolledDie } from "./types";
+
+/** How many of each symbol (by id) a face or a pool shows. */
+export type SymbolCounts = Record<string, number>;
+
+export type SymbolDef = {
+  id: string;
+  name: string;
+  /** Short text form for results, e.g. "✖". */
+  glyph: string;
+  /** SVG path data in a 24×24 box, drawn on the die instead of the glyph. */
+  icon?: string;
+  /** Other symbols one of these also counts as (a triumph is a success). */
+  implies?: SymbolCounts;
+};
+
+/**
+ * Symbols shared by a family of dice, and the rules for reading a pool of
+ * them: each `cancels` pair removes one of each side until one runs out.
+ */
+export type DiceSet = {
+  id: string;
+  name: string;
+  symbols: SymbolDef[];
+  cancels: [string, string][];
+};
+
+/** Faces of a symbol die, indexed by face value - 1. */
+export type SymbolFaces = { set: string; faces: SymbolCounts[] };
+
+const sets = new Map<string, DiceSet>();
+
+export function registerDiceSet(set: DiceSet) {
+  sets.set(set.id, set);
+}
+
+export function diceSet(id: string): DiceSet | undefined {
+  return sets.get(id);
+}
+
+export function symbolsForValue(
+  kind: DieKind,
+  value: number,
+): SymbolCounts | undefined {
+  const symbols = dieType(kind)?.symbols;
+  return symbols ? symbols.faces[value - 1] ?? {} : undefined;
+}
+
+/** A face's symbols, one entry per copy, in the set's order. */
+export function expandSymbols(set: DiceSet, counts: SymbolCounts) {
+  return set.symbols.flatMap((s) =>
+    Array.from({ length: counts[s.id] ?? 0 }, () => s),
+  );
+}
+
+/** Text form of one face, e.g. "✶✶▲"; blank faces read "–". */
+export function formatSymbols(set: DiceSet, counts: SymbolCounts) {
+  return (
+    expandSymbols(set, counts)
+      .map((s) => s.glyph)
+      .join("") || "–"
+  );
+}
+
+export type SymbolSummary = {
+  set: DiceSet;
+  /** Everything rolled, implied symbols included. */
+  rolled: SymbolCounts;
+  /** What's left once opposing symbols cancel. */
+  net: SymbolCounts;
+};
+
+/** Totals each dice set's symbols in a roll and applies its cancel rules. */
+export function summarizeSymbols(dice: RolledDie[]): SymbolSummary[] {
+  const bySet = new Map<string, SymbolCounts>();
+  for (const d of dice) {
+    const faces = dieType(d.kind)?.symbols;
+    const set = faces && diceSet(faces.set);
+    if (!set) continue;
+    const rolled = bySet.get(set.id) ?? {};
+    const add = (counts: SymbolCounts) => {
+      for (const [id, n] of Object.entries(counts)) {
+        rolled[id] = (rolled[id] ?? 0) + n;
+        const implied = set.symbols.find((s) => s.id === id)?.implies;
+        if (implied)
+          for (const [other, m] of Object.entries(implied))
+            rolled[other] = (rolled[other] ?? 0) + m * n;
+      }
+    };
+    add(faces.faces[d.value - 1] ?? {});
+    bySet.set(set.id, rolled);
+  }
+
+  return Array.from(bySet, ([id, rolled]) => {
+    const set = diceSet(id)!;
+    const net = { ...rolled };
+    for (const [a, b] of set.cancels) {
+      const n = Math.min(net[a] ?? 0, net[b] ?? 0);
+      if (n > 0) {
+        net[a] -= n;
+        net[b] -= n;
+      }
+    }
+    for (const key of Object.keys(net)) if (!net[key]) delete net[key];
+    return { set, rolled, net };
+  });
+}
+
+/** E.g. "2 Success, 1 Threat"; null when the roll has no symbol dice. */
+export function describeSymbolResult(dice: RolledDie[]): string | null {
+  const summaries = summarizeSymbols(dice);
+  if (summaries.length === 0) return null;
+  return summaries
+    .map(({ set, net }) => {
+      const parts = set.symbols
+        .filter((s) => net[s.id])
+        .map((s) => `${net[s.id]} ${s.name}`);
+      return parts.length ? parts.join(", ") : "All symbols cancelled";
+    })
+    .join(" · ");
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { MAX_DICE } from "./notation";
+import {
+  CEILING_Y,
+  DEFAULT_TRAY,
+  MIN_TRAY_SIDE,
+  preRollPosition,
+  WALL_THICKNESS,
+  type TraySize,
+} from "./tray";
+
+/** Room a die needs around its centre; a d20's bounding radius. */
+const DIE_RADIUS = 0.95;
+
+describe("preRollPosition", () => {
+  it.each<[string, TraySize, number]>([
+    ["the default tray", DEFAULT_TRAY, 0],
+    ["a small tray", { width: 8, depth: 6 }, 0],
+    ["the default tray, lifted", DEFAULT_TRAY, 3],
+    ["a small tray, lifted", { width: 8, depth: 6 }, 3],
+  ])("starts every die inside the walls of %s", (_, tray, lift) => {
+    const seen = new Set<string>();
+    for (let i = 0; i < 120; i++) {
+      const [x, y, z] = preRollPosition(tray, i, lift);
+      expect(Math.abs(x) + DIE_RADIUS).toBeLessThan(
+        tray.width / 2 - WALL_THICKNESS / 2,
+      );
+      expect(Math.abs(z) + DIE_RADIUS).toBeLessThan(
+        tray.depth / 2 - WALL_THICKNESS / 2,
+      );
+      expect(y + DIE_RADIUS).toBeLessThan(CEILING_Y - WALL_THICKNESS / 2);
+      seen.add(`${x},${y},${z}`);
+    }
+    if (tray === DEFAULT_TRAY && !lift) expect(seen.size).toBe(120);
+  });
+
+  it.each([0, 3])(
+    "gives every die its own spot on the smallest tray, lifted %i",
+    (lift) => {
+      const tray = { width: MIN_TRAY_SIDE, depth: MIN_TRAY_SIDE };
+      // Every die a d100, so twice as many dice as the roll allows
+      const count = MAX_DICE * 2;
+      const seen = new Set<string>();
+      for (let i = 0; i < count; i++) {
+        const [x, y, z] = preRollPosition(tray, i, lift, count);
+        expect(Math.abs(x) + DIE_RADIUS).toBeLessThan(
+          tray.width / 2 - WALL_THICKNESS / 2,
+        );
+        expect(y + DIE_RADIUS).toBeLessThan(CEILING_Y - WALL_THICKNESS / 2);
+        seen.add(`${x},${y},${z}`);
+      }
+      expect(seen.size).toBe(count);
+    },
+  );
+
+  it("keeps the usual spots for a few dice", () => {
+    const tray = { width: MIN_TRAY_SIDE, depth: MIN_TRAY_SIDE };
+    expect(preRollPosition(tray, 1, 0, 2)).toEqual(preRollPosition(tray, 1));
+    expect(preRollPosition(tray, 1, 0, MAX_DICE)).not.toEqual(
+      preRollPosition(tray, 1),
+    );
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * The tray's floor in world units, the same on every screen so that shared
+ * and replayed throws land alike on a phone and a desktop.
+ */
+export type TraySize = { width: number; depth: number };
+
+export const DEFAULT_TRAY: TraySize = { width: 16, depth: 9 };
+/** Bounds on either side of a tray; the server holds rooms to the same. */
+export const MIN_TRAY_SIDE = 6;
+export const MAX_TRAY_SIDE = 40;
+
+export function isTraySize(tray: TraySize) {
+  return [tray.width, tray.depth].every(
+    (side) =>
+      Number.isFinite(side) && side >= MIN_TRAY_SIDE && side <= MAX_TRAY_SIDE,
+  );
+}
+
+export const WALL_THICKNESS = 1.2;
+export const WALL_HEIGHT = 6;
+export const CEILING_Y = 5.5;
+/** Height dice are carried at while being picked up for a flick. */
+export const CARRY_HEIGHT = 2.5;
+
+/**
+ * Dice waiting to be thrown: centre-to-centre gap, and room left at the
+ * walls and under the lid, more than any die's radius.
+ */
+const PRE_ROLL_SPACING = 1.25;
+const PRE_ROLL_MARGIN = 1;
+/** Height of the lowest waiting dice, and of each layer stacked on them. */
+const PRE_ROLL_Y = 1.5;
+const PRE_ROLL_LAYER = 1.1;
+
+/** Rows, columns and layers of waiting dice `spacing` apart. */
+function preRollGrid(tray: TraySize, spacing: number, lift: number) {
+  const fit = (size: number) =>
+    Math.max(
+      1,
+      Math.floor((size - WALL_THICKNESS - 2 * PRE_ROLL_MARGIN) / spacing) + 1,
+    );
+  const layer = (PRE_ROLL_LAYER * spacing) / PRE_ROLL_SPACING;
+  const top = CEILING_Y - WALL_THICKNESS / 2 - PRE_ROLL_MARGIN;
+  const y0 = Math.min(PRE_ROLL_Y + lift, top);
+  const layers = Math.floor((top - y0) / layer) + 1;
+  return {
+    cols: fit(tray.width),
+    rows: fit(tray.depth),
+    layers,
+    layer,
+    y0,
+    top,
+  };
+}
+
+/**
+ * Gap between `count` dice waiting at `lift`: the usual one, or closer
+ * when a small tray wouldn't otherwise give each die a spot of its own.
+ */
+export function preRollSpacing(tray: TraySize, count: number, lift = 0) {
+  let spacing = PRE_ROLL_SPACING;
+  for (let i = 0; i < 20; i++) {
+    const { cols, rows, layers } = preRollGrid(tray, spacing, lift);
+    if (cols * rows * layers >= count) break;
+    spacing *= 0.9;
+  }
+  return spacing;
+}
+
+/**
+ * Where the `index`th of `count` dice waits before a throw: in rows from
+ * the back wall, as many across as the tray fits, then in layers on top
+ * once the floor is full, so every die starts inside the walls. `lift`
+ * raises it, e.g. for dice dropped in above others, but never into the lid.
+ */
+export function preRollPosition(
+  tray: TraySize,
+  index: number,
+  lift = 0,
+  count = index + 1,
+): [number, number, number] {
+  const spacing = preRollSpacing(tray, count, lift);
+  const {
+    cols,
+    rows,
+    layers,
+    layer: gap,
+    y0,
+    top,
+  } = preRollGrid(tray, spacing, lift);
+  const slot = index % (cols * rows * layers);
+  const layer = Math.floor(slot / (cols * rows));
+  const row = Math.floor(slot / cols) % rows;
+  const col = slot % cols;
+  return [
+    (col - (cols - 1) / 2) * spacing,
+    Math.min(top, y0 + layer * gap + (row % 3) * 0.05),
+    (row - (rows - 1) / 2) * spacing,
+  ];
+}
+
+/** Room around the tray when the camera frames it, as a share of its size. */
+const TRAY_MARGIN = 0.08;
+
+/**
+ * Ortho zoom (pixels per unit) that fits `tray` into a `width`×`height`
+ * view. `turned` when it fits larger with its long side running up the
+ * screen, as on a phone held upright.
+ */
+export function fitTray(
+  tray: TraySize,
+  width: number,
+  height: number,
+): { zoom: number; turned: boolean } {
+  const w = tray.width * (1 + TRAY_MARGIN);
+  const d = tray.depth * (1 + TRAY_MARGIN);
+  const flat = Math.min(width / w, height / d);
+  const turned = Math.min(width / d, height / w);
+  return turned > flat
+    ? { zoom: turned, turned: true }
+    : { zoom: flat, turned: false };
+}
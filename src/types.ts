@@ -1,5 +1,112 @@
+import type { DieKind } from "./die-types";
+import type { RollCheck } from "./checks";
+import type { FairReveal } from "./fair";
+import type { ReadingChoice } from "./readings";
+import type { ReplayRecording } from "./replay";
+import type { TraySize } from "./tray";
+
+/** What the table does with a die that comes to rest cocked. */
+export type CockedRule = "rethrow" | "nudge";
+
 export type UserConfig = {
   name: string;
   color: string;
-  room: { id: string; code: string };
+  /**
+   * `fair` asks for commit-reveal rolls, `cocked` sets the cocked-die rule
+   * and `tray` the tray's size; they only apply when creating a room.
+   */
+  room: {
+    id: string;
+    code: string;
+    fair?: boolean;
+    cocked?: CockedRule;
+    tray?: TraySize;
+  };
+};
+
+export type RoomMember = {
+  id: string;
+  username: string;
+  color: string;
+  owner?: boolean;
+};
+
+export type RoomErrorCode =
+  | "BAD_REQUEST"
+  | "BAD_ROOM_CODE"
+  | "NOT_IN_ROOM"
+  | "NOT_OWNER"
+  | "NO_SUCH_MEMBER"
+  | "ROLL_FAILED";
+export type RoomError = { code: RoomErrorCode; message: string };
+export type RoomAck<T = {}> = ({ ok: true } & T) | { error: RoomError };
+
+export type RolledDie = {
+  kind: DieKind;
+  value: number;
+  /** Percentile pair behind a d100 value. */
+  tens?: number;
+  units?: number;
+};
+
+/** One server request behind a roll, in the order the tray threw them. */
+export type RollWave = {
+  rollId: string;
+  /** What the request returned, d100 as 1–100. */
+  dice: RolledDie[];
+  /** Filled in by the server, as on SharedRoll. */
+  providers?: string[];
+  reveal?: FairReveal;
+};
+
+/**
+ * A hold-and-reroll step: the dice held over from the step before, the rest
+ * having been thrown again. `of` is the id of the roll's first step, and
+ * `rethrown` which dice (in `diceForRoll` order) were thrown again.
+ */
+export type RollStep = {
+  of: string;
+  number: number;
+  held: RolledDie[];
+  rethrown?: number[];
+};
+
+export type RollShare = {
+  id: string;
+  /** Set when the values came from the server's `requestRoll`. */
+  rollId?: string;
+  notation?: string;
+  dice: RolledDie[];
+  /** Total minus the kept dice, i.e. what the notation's arithmetic added. */
+  modifier?: number;
+  total: number;
+  /** How the dice were read when not summed, e.g. "3 successes · Glitch". */
+  outcome?: string;
+  /** The reading behind `outcome`, so a re-roll reads the same way. */
+  reading?: ReadingChoice;
+  /** Advantage and DC the roll was made with, for re-rolls. */
+  check?: RollCheck;
+  /**
+   * Set when roll rules (rerolls, explosions) had the server roll again,
+   * and on later steps of a server roll; the first wave is `rollId`'s.
+   * `dice` are then the counted results.
+   */
+  waves?: RollWave[];
+  /** Set from the second step of a hold-and-reroll on. */
+  step?: RollStep;
+  /** Recorded throw, so other members can watch it again. */
+  replay?: ReplayRecording;
+};
+
+export type SharedRoll = RollShare & {
+  id: string;
+  by: string;
+  color: string;
+  at: number;
+  /** The server confirmed these values are the ones it rolled. */
+  authoritative?: boolean;
+  /** Randomness provider behind each die, for authoritative rolls. */
+  providers?: string[];
+  /** Seeds of a commit-reveal roll, for local verification. */
+  reveal?: FairReveal;
 };